@@ -6,6 +6,8 @@ import { getParents } from "@/util/dagUtils";
 import { SetActive } from "@/components/SetActive";
 import { filterNodes } from "@/util/filterNodes";
 import { MarkdownBlock } from "@/components/MarkdownBlock";
+import { DocBlockLinks } from "@/components/DocBlockLinks";
+import { ChangeBanner, getNodeChange } from "@/components/ChangeBanner";
 
 export default async function Analysispage({
   params: { id },
@@ -40,6 +42,7 @@ export default async function Analysispage({
               <span className="break">{model.name}</span>
               <small>Analysis</small>
             </h1>
+            <ChangeBanner node={model} />
           </div>
         </div>
         <div className="app-frame app-pad-h">
@@ -69,6 +72,7 @@ export default async function Analysispage({
                   {model.description ? (
                     <div className="model-markdown">
                       <MarkdownBlock markdown={model.description} />
+                      <DocBlockLinks ids={model.doc_blocks} />
                     </div>
                   ) : (
                     <div>
@@ -96,7 +100,8 @@ export default async function Analysispage({
               <CodeBlock
                 versions={versions}
                 defaultVersion={"Source"}
-                language={"python"}
+                language={model.language}
+                baseline={getNodeChange(model)?.baseline_code}
               />
             </div>
           </section>
@@ -0,0 +1,221 @@
+import "server-only";
+
+import process from "process";
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+import _ from "lodash";
+
+// Loads the dbt artifacts (manifest.json, catalog.json, run_results.json,
+// sources.json) a site is generated from. Artifacts may be gzip compressed,
+// in which case either `<name>.json.gz` or a gzipped `<name>.json` is
+// accepted.
+
+export type ArtifactName = "manifest" | "catalog" | "run_results" | "sources";
+
+export type ArtifactDiagnostic = {
+  artifact: ArtifactName;
+  level: "error" | "warning" | "info";
+  path: string;
+  message: string;
+};
+
+export class ArtifactError extends Error {
+  diagnostic: ArtifactDiagnostic;
+
+  constructor(diagnostic: ArtifactDiagnostic) {
+    super(`${diagnostic.message} (${diagnostic.path})`);
+    this.name = "ArtifactError";
+    this.diagnostic = diagnostic;
+  }
+}
+
+// The manifest is required, the others only add information to the site.
+const missingLevels: Record<ArtifactName, ArtifactDiagnostic["level"]> = {
+  manifest: "error",
+  catalog: "warning",
+  run_results: "info",
+  sources: "info",
+};
+
+const missingMessages: Record<ArtifactName, string> = {
+  manifest: "manifest.json was not found, run `dbt docs generate` first",
+  catalog:
+    "catalog.json was not found, column types and table statistics will be missing",
+  run_results: "run_results.json was not found, run results will be missing",
+  sources:
+    "sources.json was not found, run `dbt source freshness` to show source freshness",
+};
+
+// Directories holding the artifacts. DBT_TARGET_PATH points at a single dbt
+// target directory; a dbt mesh is documented as one site by listing the
+// artifact directory of every project, comma separated, in DBT_PROJECT_DIRS.
+// Relative paths are resolved against the working directory.
+export function getArtifactDirs() {
+  const dirs = _.compact(
+    (process.env.DBT_PROJECT_DIRS || "").split(",").map((dir) => dir.trim())
+  );
+  if (!dirs.length) {
+    dirs.push(process.env.DBT_TARGET_PATH || ".");
+  }
+  return dirs.map((dir) => path.resolve(process.cwd(), dir));
+}
+
+// Artifacts of an earlier build to compare the site with, e.g. production
+// when documenting a pull request, set with DBT_BASELINE_PATH
+export function getBaselineDir() {
+  const dir = (process.env.DBT_BASELINE_PATH || "").trim();
+  return dir ? path.resolve(process.cwd(), dir) : null;
+}
+
+// Directory of run_results.json files kept from earlier runs, e.g. copied
+// there by CI after every `dbt build`, set with DBT_RUN_HISTORY_PATH
+export function getRunHistoryDir() {
+  const dir = (process.env.DBT_RUN_HISTORY_PATH || "").trim();
+  return dir ? path.resolve(process.cwd(), dir) : null;
+}
+
+function isGzip(data: Buffer) {
+  return data.length > 2 && data[0] == 0x1f && data[1] == 0x8b;
+}
+
+async function findArtifact(dir: string, name: ArtifactName) {
+  const candidates = [`${name}.json`, `${name}.json.gz`];
+  for (const candidate of candidates) {
+    const file = path.join(dir, candidate);
+    try {
+      await fs.promises.access(file, fs.constants.F_OK);
+      return file;
+    } catch (e) {
+      continue;
+    }
+  }
+  return null;
+}
+
+// Reads and parses one artifact. A missing or broken artifact yields a
+// diagnostic instead of data; callers decide whether that is fatal.
+export async function readArtifact(
+  dir: string,
+  name: ArtifactName
+): Promise<{ data: any; diagnostic: ArtifactDiagnostic | null }> {
+  const file = await findArtifact(dir, name);
+  if (!file) {
+    return {
+      data: null,
+      diagnostic: {
+        artifact: name,
+        level: missingLevels[name],
+        path: path.join(dir, `${name}.json`),
+        message: missingMessages[name],
+      },
+    };
+  }
+
+  return readArtifactFile(file, name);
+}
+
+async function readArtifactFile(
+  file: string,
+  name: ArtifactName
+): Promise<{ data: any; diagnostic: ArtifactDiagnostic | null }> {
+  // an artifact that exists but cannot be used is always worth a warning
+  const failed = (
+    message: string
+  ): { data: any; diagnostic: ArtifactDiagnostic } => ({
+    data: null,
+    diagnostic: {
+      artifact: name,
+      level: name == "manifest" ? "error" : "warning",
+      path: file,
+      message: message,
+    },
+  });
+
+  let contents: Buffer;
+  try {
+    contents = await fs.promises.readFile(file);
+  } catch (e: any) {
+    return failed(`${name}.json could not be read: ${e.message}`);
+  }
+  try {
+    if (isGzip(contents)) {
+      contents = zlib.gunzipSync(contents);
+    }
+  } catch (e: any) {
+    return failed(`${name}.json could not be decompressed: ${e.message}`);
+  }
+  try {
+    return { data: JSON.parse(contents.toString("utf8")), diagnostic: null };
+  } catch (e: any) {
+    return failed(`${name}.json is not valid JSON: ${e.message}`);
+  }
+}
+
+function report(diagnostic: ArtifactDiagnostic) {
+  const message = `[artifacts] ${diagnostic.message} (${diagnostic.path})`;
+  if (diagnostic.level == "error") {
+    console.error(message);
+  } else if (diagnostic.level == "warning") {
+    console.warn(message);
+  } else {
+    console.info(message);
+  }
+}
+
+// Loads every artifact of one dbt target directory. Throws an ArtifactError
+// when the manifest is unusable; a missing catalog leaves an empty one in
+// place so the site can still be built without column types.
+export async function loadArtifacts(dir: string) {
+  const [manifest, catalog, run_results, sources] = await Promise.all([
+    readArtifact(dir, "manifest"),
+    readArtifact(dir, "catalog"),
+    readArtifact(dir, "run_results"),
+    readArtifact(dir, "sources"),
+  ]);
+  const diagnostics = _.compact([
+    manifest.diagnostic,
+    catalog.diagnostic,
+    run_results.diagnostic,
+    sources.diagnostic,
+  ]);
+  _.each(diagnostics, report);
+
+  if (manifest.diagnostic) {
+    throw new ArtifactError(manifest.diagnostic);
+  }
+
+  return {
+    dir: dir,
+    manifest: manifest.data,
+    catalog: catalog.data || { metadata: {}, nodes: {}, sources: {} },
+    catalog_missing: !catalog.data,
+    run_results: run_results.data,
+    sources: sources.data,
+    diagnostics: diagnostics,
+  };
+}
+
+// Loads every `.json` or `.json.gz` file in the run history directory as a
+// run_results artifact. Unreadable files are reported and skipped.
+export async function loadRunHistory(dir: string) {
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(dir);
+  } catch (e: any) {
+    report({
+      artifact: "run_results",
+      level: "warning",
+      path: dir,
+      message: `the run history could not be read: ${e.message}`,
+    });
+    return [];
+  }
+  const results = await Promise.all(
+    _.filter(files.sort(), (file) => /\.json(\.gz)?$/.test(file)).map((file) =>
+      readArtifactFile(path.join(dir, file), "run_results")
+    )
+  );
+  _.each(_.compact(_.map(results, "diagnostic")), report);
+  return _.compact(_.map(results, "data"));
+}
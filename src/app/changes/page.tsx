@@ -0,0 +1,186 @@
+import "server-only";
+
+import _ from "lodash";
+import Link from "next/link";
+import * as projectService from "@/app/projectService";
+import { TestStatusBadge } from "@/components/TestStatusBadge";
+import { getNodeUrl } from "@/util/nodeUrl";
+import { NodeChange, describeChange } from "@/util/artifactDiff";
+
+const statusTitles = {
+  added: "Added",
+  removed: "Removed",
+  modified: "Modified",
+};
+
+const statusBadges = {
+  added: "pass",
+  removed: "fail",
+  modified: "warn",
+};
+
+function ChangeDetails({ change }: { change: NodeChange }) {
+  return (
+    <>
+      {describeChange(change)}
+      {change.columns.length ? (
+        <div>
+          <small>
+            Columns:{" "}
+            {change.columns.map((column, index) => (
+              <span key={column.name}>
+                {index ? ", " : null}
+                <code>{column.name}</code>{" "}
+                {column.change == "type"
+                  ? `${column.from} → ${column.to}`
+                  : column.change}
+              </span>
+            ))}
+          </small>
+        </div>
+      ) : null}
+      {change.column_descriptions.length ? (
+        <div>
+          <small>
+            Column descriptions:{" "}
+            {change.column_descriptions.map((name, index) => (
+              <span key={name}>
+                {index ? ", " : null}
+                <code>{name}</code>
+              </span>
+            ))}
+          </small>
+        </div>
+      ) : null}
+      {change.tests.length ? (
+        <div>
+          <small>
+            Tests:{" "}
+            {change.tests
+              .map((test) => `${test.name} ${test.change}`)
+              .join(", ")}
+          </small>
+        </div>
+      ) : null}
+    </>
+  );
+}
+
+// What changed between the baseline artifacts (DBT_BASELINE_PATH) and the
+// ones the site is built from, for reviewing a pull request
+export default async function ChangesPage() {
+  await projectService.loadProject();
+  const changes = projectService.project.changes;
+
+  return (
+    <div className="app-scroll">
+      <div className="app-links app-sticky">
+        <div className="app-title">
+          <div className="app-frame app-pad app-flush-bottom">
+            <h1>
+              <span className="break">Changes</span>
+              {changes && changes.baseline_generated_at ? (
+                <small>since {changes.baseline_generated_at}</small>
+              ) : null}
+            </h1>
+          </div>
+        </div>
+      </div>
+      <div className="app-details">
+        <div className="app-frame app-pad">
+          {!changes ? (
+            <div className="panel">
+              <div className="panel-body">
+                No baseline to compare with. Set <code>DBT_BASELINE_PATH</code>{" "}
+                to a directory holding the <code>manifest.json</code> and{" "}
+                <code>catalog.json</code> of an earlier build.
+              </div>
+            </div>
+          ) : (
+            <>
+              <section className="section">
+                <div className="section-content">
+                  <div className="panel">
+                    <div className="panel-body">
+                      <div className="detail-group">
+                        <div className="detail-body">
+                          {_.map(statusTitles, (title, status) => (
+                            <dl className="detail" key={status}>
+                              <dt className="detail-label">{title}</dt>
+                              <dd className="detail-value">
+                                {
+                                  changes.summary[
+                                    status as keyof typeof statusTitles
+                                  ]
+                                }
+                              </dd>
+                            </dl>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              </section>
+              <section className="section">
+                <div className="section-content">
+                  <div className="panel">
+                    <div className="panel-body">
+                      {changes.nodes.length ? (
+                        <div className="table-responsive">
+                          <table className="table table-borderless table-hover">
+                            <thead>
+                              <tr>
+                                <th>Name</th>
+                                <th>Type</th>
+                                <th>Status</th>
+                                <th>Changes</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {changes.nodes.map((change: NodeChange) => (
+                                <tr
+                                  key={change.unique_id}
+                                  id={change.unique_id}
+                                >
+                                  <td>
+                                    {change.status == "removed" ? (
+                                      change.name
+                                    ) : (
+                                      <Link href={getNodeUrl(change)}>
+                                        {change.name}
+                                      </Link>
+                                    )}
+                                  </td>
+                                  <td>{change.resource_type}</td>
+                                  <td>
+                                    <TestStatusBadge
+                                      status={statusBadges[change.status]}
+                                    >
+                                      {statusTitles[change.status]}
+                                    </TestStatusBadge>
+                                  </td>
+                                  <td>
+                                    {change.status == "modified" ? (
+                                      <ChangeDetails change={change} />
+                                    ) : null}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      ) : (
+                        <div>Nothing changed since the baseline</div>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { get_owners, loadProject, project } from "@/app/projectService";
+import { buildCodeChunks } from "@/util/searchIndex";
+
+export async function GET(
+  request: Request,
+  { params: { chunk } }: { params: { chunk: string } }
+) {
+  await loadProject();
+  return NextResponse.json(
+    buildCodeChunks(project, get_owners)[Number(chunk)] || []
+  );
+}
+
+export const revalidate = Infinity;
+
+export async function generateStaticParams() {
+  await loadProject();
+  return buildCodeChunks(project, get_owners).map((_: any, index: number) => ({
+    chunk: String(index),
+  }));
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { get_owners, loadProject, project } from "../projectService";
+import { buildCodeChunks } from "@/util/searchIndex";
+
+// Lists the code search chunks served from /codechunks/<n>
+export async function GET(request: Request) {
+  await loadProject();
+  return NextResponse.json({
+    chunks: buildCodeChunks(project, get_owners).length,
+  });
+}
+
+export const revalidate = Infinity;
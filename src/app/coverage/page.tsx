@@ -0,0 +1,236 @@
+import "server-only";
+
+import _ from "lodash";
+import Link from "next/link";
+import * as projectService from "@/app/projectService";
+import {
+  CoverageGroup,
+  CoverageStats,
+  coverageResourceTypes,
+  formatPercentage,
+  getUndocumentedColumns,
+  groupCoverage,
+  isDocumented,
+  summarizeCoverage,
+} from "@/util/coverage";
+import { getNodeUrl } from "@/util/nodeUrl";
+
+function CoverageValue({ count, total }: { count: number; total: number }) {
+  return (
+    <>
+      {formatPercentage(count, total) || "-"}{" "}
+      <small className="text-light">
+        ({count} of {total})
+      </small>
+    </>
+  );
+}
+
+function CoverageTable({
+  title,
+  groups,
+}: {
+  title: string;
+  groups: CoverageGroup[];
+}) {
+  if (!groups.length) {
+    return null;
+  }
+  return (
+    <section className="section">
+      <div className="section-target" />
+      <div className="section-content">
+        <h6>{title}</h6>
+        <div className="panel">
+          <div className="panel-body">
+            <div className="table-responsive">
+              <table className="table table-borderless table-hover">
+                <thead>
+                  <tr>
+                    <th>Name</th>
+                    <th>Resources documented</th>
+                    <th>Columns documented</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {groups.map(({ key, stats }) => (
+                    <tr key={key}>
+                      <td>{key}</td>
+                      <td>
+                        <CoverageValue
+                          count={stats.documented}
+                          total={stats.resources}
+                        />
+                      </td>
+                      <td>
+                        <CoverageValue
+                          count={stats.documented_columns}
+                          total={stats.columns}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+export default async function CoveragePage() {
+  await projectService.loadProject();
+  const project = projectService.project;
+
+  // sources are merged into project.nodes when the project is loaded
+  const resources = _.filter(_.values(project.nodes), (resource) =>
+    _.includes(coverageResourceTypes, resource.resource_type)
+  );
+  const total = summarizeCoverage(resources);
+  const byType = _.map(coverageResourceTypes, (type) => ({
+    type: type,
+    stats: summarizeCoverage(_.filter(resources, { resource_type: type })),
+  }));
+
+  const byPackage = groupCoverage(
+    resources,
+    (resource) => resource.package_name
+  );
+  const byFolder = groupCoverage(resources, (resource) =>
+    _.initial(projectService.get_project_path(resource)).join("/")
+  );
+  const byOwner = groupCoverage(
+    resources,
+    (resource) => projectService.get_owners(resource).join(" ") || "No owner"
+  );
+  const byGroup = groupCoverage(
+    _.filter(resources, "group"),
+    (resource) => resource.group
+  );
+
+  const undocumented = _.sortBy(
+    _.filter(
+      _.map(resources, (resource) => ({
+        resource: resource,
+        description: isDocumented(resource),
+        columns: getUndocumentedColumns(resource),
+      })),
+      (item) => !item.description || item.columns.length > 0
+    ),
+    (item) => item.resource.unique_id
+  );
+
+  const summary: { name: string; stats: CoverageStats; columns?: boolean }[] = [
+    ...byType
+      .filter(({ stats }) => stats.resources > 0)
+      .map(({ type, stats }) => ({ name: `${_.capitalize(type)}s`, stats })),
+    { name: "Columns", stats: total, columns: true },
+  ];
+
+  return (
+    <div className="app-scroll">
+      <div className="app-links app-sticky">
+        <div className="app-title">
+          <div className="app-frame app-pad app-flush-bottom">
+            <h1>
+              <span className="break">Documentation coverage</span>
+              <small>
+                {formatPercentage(total.documented, total.resources) || "-"}
+              </small>
+            </h1>
+          </div>
+        </div>
+      </div>
+      <div className="app-details">
+        <div className="app-frame app-pad">
+          <section className="section">
+            <div className="section-target" />
+            <div className="section-content">
+              <h6>Summary</h6>
+              <div className="panel">
+                <div className="panel-body">
+                  <div className="detail-group">
+                    <div className="detail-body">
+                      {summary.map(({ name, stats, columns }) => (
+                        <dl className="detail" key={name}>
+                          <dt className="detail-label">{name}</dt>
+                          <dd className="detail-value">
+                            {columns ? (
+                              <CoverageValue
+                                count={stats.documented_columns}
+                                total={stats.columns}
+                              />
+                            ) : (
+                              <CoverageValue
+                                count={stats.documented}
+                                total={stats.resources}
+                              />
+                            )}
+                          </dd>
+                        </dl>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </section>
+          <CoverageTable title="By package" groups={byPackage} />
+          <CoverageTable title="By folder" groups={byFolder} />
+          <CoverageTable title="By owner" groups={byOwner} />
+          <CoverageTable title="By group" groups={byGroup} />
+          <section className="section">
+            <div className="section-target" />
+            <div className="section-content">
+              <h6>Undocumented</h6>
+              <div className="panel">
+                <div className="panel-body">
+                  {undocumented.length ? (
+                    <div className="table-responsive">
+                      <table className="table table-borderless table-hover">
+                        <thead>
+                          <tr>
+                            <th>Name</th>
+                            <th>Type</th>
+                            <th>Package</th>
+                            <th>Description</th>
+                            <th>Undocumented columns</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {undocumented.map(
+                            ({ resource, description, columns }) => (
+                              <tr key={resource.unique_id}>
+                                <td>
+                                  <Link href={getNodeUrl(resource)}>
+                                    {resource.resource_type == "source"
+                                      ? `${resource.source_name}.${resource.name}`
+                                      : resource.label || resource.name}
+                                  </Link>
+                                </td>
+                                <td>{resource.resource_type}</td>
+                                <td>{resource.package_name}</td>
+                                <td>{description ? "yes" : "missing"}</td>
+                                <td title={columns.join(", ")}>
+                                  {columns.length || null}
+                                </td>
+                              </tr>
+                            )
+                          )}
+                        </tbody>
+                      </table>
+                    </div>
+                  ) : (
+                    <div>Everything is documented.</div>
+                  )}
+                </div>
+              </div>
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
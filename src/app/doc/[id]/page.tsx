@@ -0,0 +1,103 @@
+import _ from "lodash";
+import Link from "next/link";
+import * as projectService from "@/app/projectService";
+import { MarkdownBlock } from "@/components/MarkdownBlock";
+import { getDocUsage } from "@/util/docBlocks";
+import { getNodeUrl } from "@/util/nodeUrl";
+
+export default async function DocPage({
+  params: { id },
+}: {
+  params: { id: string };
+}) {
+  await projectService.loadProject();
+  const doc = projectService.project.docs[id];
+  const usage = _.sortBy(getDocUsage(projectService.project.nodes)[id] || [], [
+    "unique_id",
+    "column",
+  ]);
+
+  return (
+    <div className="app-scroll">
+      <div className="app-links app-sticky">
+        <div className="app-title">
+          <div className="app-frame app-pad app-flush-bottom">
+            <h1>
+              <span className="break">
+                {doc.package_name}.{doc.name}
+              </span>
+              <small>doc block</small>
+            </h1>
+          </div>
+        </div>
+        <div className="app-frame app-pad-h">
+          <ul className="nav nav-tabs">
+            <li>
+              <a href="#contents">Contents</a>
+            </li>
+            <li>
+              <a href="#used_by">Used By</a>
+            </li>
+          </ul>
+        </div>
+      </div>
+      <div className="app-details">
+        <div className="app-frame app-pad">
+          <section className="section">
+            <div className="section-target" id="contents"></div>
+            <div className="section-content">
+              <h6>Contents</h6>
+              <div className="panel">
+                <div className="panel-body">
+                  <div className="model-markdown">
+                    <MarkdownBlock markdown={doc.block_contents} />
+                  </div>
+                  <small className="text-light">
+                    Defined in <code>{doc.original_file_path}</code>, used with{" "}
+                    <code>{`{{ doc("${doc.name}") }}`}</code>
+                  </small>
+                </div>
+              </div>
+            </div>
+          </section>
+
+          <section className="section">
+            <div className="section-target" id="used_by"></div>
+            <div className="section-content">
+              <h6>Used By</h6>
+              <div className="panel">
+                <div className="panel-body">
+                  {usage.length ? (
+                    <ul>
+                      {usage.map((entry) => (
+                        <li key={`${entry.unique_id}.${entry.column || ""}`}>
+                          <Link href={getNodeUrl(entry)}>{entry.name}</Link>
+                          {entry.column ? (
+                            <>
+                              {" "}
+                              column <code>{entry.column}</code>
+                            </>
+                          ) : null}{" "}
+                          <small className="text-light">
+                            {entry.resource_type}
+                          </small>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <div>This doc block is not used by any description</div>
+                  )}
+                </div>
+              </div>
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export async function generateStaticParams() {
+  await projectService.loadProject();
+  return Object.keys(projectService.project.docs).map((id) => ({ id: id }));
+}
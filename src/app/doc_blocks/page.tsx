@@ -0,0 +1,111 @@
+import "server-only";
+
+import _ from "lodash";
+import Link from "next/link";
+import * as projectService from "@/app/projectService";
+import { getDocUsage, isOverviewDoc } from "@/util/docBlocks";
+import { getNodeUrl } from "@/util/nodeUrl";
+
+function DocTable({ docs, usage }: { docs: any[]; usage: any }) {
+  return (
+    <div className="table-responsive">
+      <table className="table table-borderless table-hover">
+        <thead>
+          <tr>
+            <th>Name</th>
+            <th>Package</th>
+            <th>File</th>
+            <th className="text-right">Used by</th>
+          </tr>
+        </thead>
+        <tbody>
+          {docs.map((doc) => (
+            <tr key={doc.unique_id}>
+              <td>
+                <Link href={getNodeUrl({ ...doc, resource_type: "doc" })}>
+                  {doc.name}
+                </Link>
+              </td>
+              <td>{doc.package_name}</td>
+              <td>
+                <code>{doc.original_file_path}</code>
+              </td>
+              <td className="text-right">
+                {(usage[doc.unique_id] || []).length}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default async function DocBlocksPage() {
+  await projectService.loadProject();
+  const project = projectService.project;
+  const usage = getDocUsage(project.nodes);
+
+  // dbt ships its own doc blocks, those are never worth cleaning up
+  const docs = _.sortBy(
+    _.filter(
+      _.values(project.docs),
+      (doc) => !isOverviewDoc(doc) && doc.package_name != "dbt"
+    ),
+    ["package_name", "name"]
+  );
+  const unused = _.filter(docs, (doc) => !usage[doc.unique_id]);
+
+  return (
+    <div className="app-scroll">
+      <div className="app-links app-sticky">
+        <div className="app-title">
+          <div className="app-frame app-pad app-flush-bottom">
+            <h1>
+              <span className="break">Doc blocks</span>
+              <small>
+                {unused.length} of {docs.length} unused
+              </small>
+            </h1>
+          </div>
+        </div>
+      </div>
+      <div className="app-details">
+        <div className="app-frame app-pad">
+          {unused.length ? (
+            <section className="section">
+              <div className="section-target" id="unused"></div>
+              <div className="section-content">
+                <h6>Unused</h6>
+                <div className="panel">
+                  <div className="panel-body">
+                    <p>
+                      No description uses these doc blocks, so they can probably
+                      be removed.
+                    </p>
+                    <DocTable docs={unused} usage={usage} />
+                  </div>
+                </div>
+              </div>
+            </section>
+          ) : null}
+          <section className="section">
+            <div className="section-target" id="all"></div>
+            <div className="section-content">
+              <h6>All doc blocks</h6>
+              <div className="panel">
+                <div className="panel-body">
+                  {docs.length ? (
+                    <DocTable docs={docs} usage={usage} />
+                  ) : (
+                    <div>This project has no doc blocks</div>
+                  )}
+                </div>
+              </div>
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
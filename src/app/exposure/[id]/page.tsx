@@ -1,4 +1,5 @@
 import _ from "underscore";
+import Link from "next/link";
 import * as projectService from "@/app/projectService";
 import { TableDetails } from "@/components/TableDetails";
 import { ReferenceList } from "@/components/ReferenceList";
@@ -6,6 +7,14 @@ import { getParents } from "@/util/dagUtils";
 import { SetActive } from "@/components/SetActive";
 import { filterNodes } from "@/util/filterNodes";
 import { MarkdownBlock } from "@/components/MarkdownBlock";
+import { DocBlockLinks } from "@/components/DocBlockLinks";
+import { ExposureUpstream } from "@/components/ExposureUpstream";
+import {
+  getExposureOwnerAnchor,
+  getExposureOwnerKey,
+  getExposureUpstream,
+} from "@/util/exposures";
+import { ChangeBanner } from "@/components/ChangeBanner";
 
 export default async function ExposurePage({
   params: { id },
@@ -16,6 +25,7 @@ export default async function ExposurePage({
   const exposure = projectService.project.nodes[id];
   const parents = getParents(projectService.project, exposure);
   const parentsLength = Object.keys(parents).length;
+  const upstream = getExposureUpstream(projectService.project, exposure);
 
   let owner_identifier;
   if (exposure.owner.name && exposure.owner.email) {
@@ -33,7 +43,15 @@ export default async function ExposurePage({
     },
     {
       name: "Owner",
-      value: owner_identifier,
+      value: owner_identifier ? (
+        <Link
+          href={`/exposure_owners/#${getExposureOwnerAnchor(
+            getExposureOwnerKey(exposure)
+          )}`}
+        >
+          {owner_identifier}
+        </Link>
+      ) : undefined,
     },
     {
       name: "Exposure name",
@@ -50,18 +68,22 @@ export default async function ExposurePage({
               <span className="break">{exposure.label}</span>
               <small>exposure</small>
 
-              <div className="pull-right">
-                <a
-                  className="btn text-white btn-primary btn-sm"
-                  href={exposure.url}
-                  target="_blank"
-                >
-                  View this exposure
-                </a>
-              </div>
+              {exposure.url ? (
+                <div className="pull-right">
+                  <a
+                    className="btn text-white btn-primary btn-sm"
+                    href={exposure.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    View this exposure
+                  </a>
+                </div>
+              ) : null}
 
               <div className="clearfix"></div>
             </h1>
+            <ChangeBanner node={exposure} />
           </div>
         </div>
         <div className="app-frame app-pad-h">
@@ -77,11 +99,36 @@ export default async function ExposurePage({
                 <a href="#depends_on">Depends On</a>
               </li>
             ) : null}
+            {upstream.length ? (
+              <li>
+                <a href="#upstream">Upstream</a>
+              </li>
+            ) : null}
           </ul>
         </div>
       </div>
       <div className="app-details">
         <div className="app-frame app-pad">
+          {exposure.url ? (
+            <section className="section">
+              <div className="section-content">
+                <div className="panel">
+                  <div className="panel-body">
+                    <h4 style={{ margin: 0, wordBreak: "break-all" }}>
+                      <a
+                        href={exposure.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        {exposure.url}
+                      </a>
+                    </h4>
+                  </div>
+                </div>
+              </div>
+            </section>
+          ) : null}
+
           <section className="section">
             <div className="section-target" id="details"></div>
             <TableDetails model={exposure} extras={extra_table_fields} />
@@ -96,6 +143,7 @@ export default async function ExposurePage({
                   {exposure.description ? (
                     <div className="model-markdown">
                       <MarkdownBlock markdown={exposure.description} />
+                      <DocBlockLinks ids={exposure.doc_blocks} />
                     </div>
                   ) : (
                     <div>
@@ -116,6 +164,16 @@ export default async function ExposurePage({
               </div>
             </section>
           ) : null}
+
+          {upstream.length ? (
+            <section className="section">
+              <div className="section-target" id="upstream"></div>
+              <div className="section-content">
+                <h6>Upstream</h6>
+                <ExposureUpstream upstream={upstream} />
+              </div>
+            </section>
+          ) : null}
         </div>
       </div>
     </div>
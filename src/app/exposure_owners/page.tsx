@@ -0,0 +1,173 @@
+import "server-only";
+
+import _ from "lodash";
+import Link from "next/link";
+import * as projectService from "@/app/projectService";
+import { TestStatusBadge, worstStatus } from "@/components/TestStatusBadge";
+import {
+  getExposureOwnerAnchor,
+  getExposureOwnerKey,
+  getExposureUpstream,
+} from "@/util/exposures";
+import { getNodeUrl } from "@/util/nodeUrl";
+
+// Exposures grouped by owner, with everything they depend on between them so
+// BI owners can see what a broken model or late source affects
+export default async function ExposureOwnersPage() {
+  await projectService.loadProject();
+  const project = projectService.project;
+
+  const owners = _.sortBy(
+    _.map(
+      _.groupBy(_.values(project.exposures), getExposureOwnerKey),
+      (exposures, key) => {
+        const upstream = _.uniqBy(
+          _.flatMap(exposures, (exposure) =>
+            getExposureUpstream(project, exposure)
+          ),
+          (entry) => entry.node.unique_id
+        );
+        return {
+          key: key,
+          names: _.uniq(_.compact(_.map(exposures, "owner.name"))),
+          email: _.get(_.find(exposures, "owner.email"), ["owner", "email"]),
+          exposures: _.sortBy(exposures, "label"),
+          upstream: upstream,
+          failing: _.filter(
+            upstream,
+            (entry) => entry.failing_tests.length > 0
+          ),
+          // a relationships test can fail on two upstream nodes at once
+          failing_tests: _.uniqBy(
+            _.flatMap(upstream, "failing_tests"),
+            "unique_id"
+          ),
+          stale: _.filter(upstream, "stale"),
+        };
+      }
+    ),
+    // exposures without an owner last
+    [(owner) => !owner.key, "key"]
+  );
+
+  return (
+    <div className="app-scroll">
+      <div className="app-links app-sticky">
+        <div className="app-title">
+          <div className="app-frame app-pad app-flush-bottom">
+            <h1>
+              <span className="break">Exposure owners</span>
+              <small>
+                {owners.length} owner{owners.length == 1 ? "" : "s"}
+              </small>
+            </h1>
+          </div>
+        </div>
+      </div>
+      <div className="app-details">
+        <div className="app-frame app-pad">
+          {owners.length ? null : (
+            <div className="panel">
+              <div className="panel-body">This project has no exposures</div>
+            </div>
+          )}
+          {owners.map((owner) => (
+            <section className="section" key={owner.key}>
+              <div
+                className="section-target"
+                id={getExposureOwnerAnchor(owner.key)}
+              ></div>
+              <div className="section-content">
+                <h6>
+                  {owner.key
+                    ? _.compact([owner.names.join(", "), owner.email]).join(
+                        " · "
+                      )
+                    : "No owner"}
+                </h6>
+                <div className="panel">
+                  <div className="panel-body">
+                    <div className="detail-group">
+                      <div className="detail-body">
+                        <dl className="detail">
+                          <dt className="detail-label">Exposures</dt>
+                          <dd className="detail-value">
+                            {owner.exposures.length}
+                          </dd>
+                        </dl>
+                        <dl className="detail">
+                          <dt className="detail-label">Upstream</dt>
+                          <dd className="detail-value">
+                            {owner.upstream.length}
+                          </dd>
+                        </dl>
+                        <dl className="detail">
+                          <dt className="detail-label">Failing tests</dt>
+                          <dd className="detail-value">
+                            {owner.failing_tests.length ? (
+                              <TestStatusBadge
+                                status={worstStatus(
+                                  _.map(owner.failing_tests, "run_result")
+                                )}
+                              >
+                                {owner.failing_tests.length}
+                              </TestStatusBadge>
+                            ) : (
+                              0
+                            )}
+                          </dd>
+                        </dl>
+                        <dl className="detail">
+                          <dt className="detail-label">Stale sources</dt>
+                          <dd className="detail-value">
+                            {owner.stale.length ? (
+                              <TestStatusBadge status="warn">
+                                {owner.stale.length}
+                              </TestStatusBadge>
+                            ) : (
+                              0
+                            )}
+                          </dd>
+                        </dl>
+                      </div>
+                    </div>
+                    <ul>
+                      {owner.exposures.map((exposure) => (
+                        <li key={exposure.unique_id}>
+                          <Link href={getNodeUrl(exposure)}>
+                            {exposure.label}
+                          </Link>{" "}
+                          <small className="text-light">
+                            {_.compact([exposure.type, exposure.maturity]).join(
+                              ", "
+                            )}
+                          </small>
+                        </li>
+                      ))}
+                    </ul>
+                    {owner.failing.length || owner.stale.length ? (
+                      <p>
+                        Affected by{" "}
+                        {_.uniqBy(
+                          owner.failing.concat(owner.stale),
+                          (entry) => entry.node.unique_id
+                        ).map((entry, index) => (
+                          <span key={entry.node.unique_id}>
+                            {index ? ", " : null}
+                            <Link href={getNodeUrl(entry.node)}>
+                              {entry.node.label}
+                            </Link>
+                          </span>
+                        ))}
+                      </p>
+                    ) : null}
+                  </div>
+                </div>
+              </div>
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { loadProject, project } from "@/app/projectService";
+import { lineageResourceTypes } from "@/util/dagUtils";
+import { NextResponse } from "next/server";
+import _ from "underscore";
+
+const selectableConfig = [
+  "materialized",
+  "schema",
+  "database",
+  "alias",
+  "group",
+  "access",
+  "enabled",
+];
+
+export async function GET() {
+  await loadProject();
+  const nodes = _.filter(project.nodes, (node: any) =>
+    _.contains(lineageResourceTypes, node.resource_type)
+  );
+
+  return NextResponse.json({
+    nodes: _.indexBy(
+      nodes.map(
+        ({
+          unique_id,
+          name,
+          label,
+          resource_type,
+          package_name,
+          source_name,
+          original_file_path,
+          fqn,
+          tags,
+          config,
+          project_name,
+          access,
+          group,
+        }: any) => ({
+          unique_id,
+          name,
+          label,
+          resource_type,
+          package_name,
+          source_name,
+          original_file_path,
+          fqn,
+          tags,
+          project_name,
+          access,
+          group,
+          // only the config keys the graph selector is likely to be asked about
+          config: _.pick(config || {}, selectableConfig),
+        })
+      ),
+      "unique_id"
+    ),
+    parent_map: _.pick(project.parent_map, _.pluck(nodes, "unique_id")),
+  });
+}
+
+export const revalidate = Infinity;
@@ -0,0 +1,255 @@
+import "server-only";
+
+import _ from "lodash";
+import Link from "next/link";
+import * as projectService from "@/app/projectService";
+import { MarkdownBlock } from "@/components/MarkdownBlock";
+import { SemanticTable } from "@/components/SemanticTable";
+import { getNodeUrl } from "@/util/nodeUrl";
+import {
+  CrossGroupDependency,
+  accessLevels,
+  getCrossGroupDependencies,
+  getGroupNodes,
+  getGroupUrl,
+} from "@/util/groups";
+
+function GroupLink({ id }: { id?: string }) {
+  const group = id ? projectService.project.groups[id] : undefined;
+  if (!group) {
+    return <span className="text-light">{id ? id : "No group"}</span>;
+  }
+  return <Link href={getGroupUrl(group)}>{group.name}</Link>;
+}
+
+function DependencyTable({
+  dependencies,
+  otherTitle,
+}: {
+  dependencies: CrossGroupDependency[];
+  otherTitle: string;
+}) {
+  return (
+    <SemanticTable
+      rows={dependencies}
+      columns={[
+        {
+          title: "Group",
+          render: (dependency) => <GroupLink id={dependency.other_group} />,
+        },
+        {
+          title: otherTitle,
+          render: (dependency) => (
+            <span>
+              <Link href={getNodeUrl(dependency.other)}>
+                {dependency.other.label}
+              </Link>{" "}
+              <small className="text-light">
+                {_.compact([
+                  dependency.other.resource_type,
+                  dependency.other.access,
+                ]).join(", ")}
+              </small>
+            </span>
+          ),
+        },
+        {
+          title: "In this group",
+          render: (dependency) => (
+            <Link href={getNodeUrl(dependency.node)}>
+              {dependency.node.label}
+            </Link>
+          ),
+        },
+      ]}
+    />
+  );
+}
+
+export default async function GroupPage({
+  params: { id },
+}: {
+  params: { id: string };
+}) {
+  await projectService.loadProject();
+  const project = projectService.project;
+  const group = project.groups[id];
+  const owner = group.owner || {};
+
+  const nodes = getGroupNodes(project, group);
+  // access only applies to models, protected being the default
+  const byAccess = _.groupBy(nodes, (node) =>
+    node.resource_type == "model" ? node.access || "protected" : "other"
+  );
+  const { upstream, downstream } = getCrossGroupDependencies(project, group);
+
+  return (
+    <div className="app-scroll">
+      <div className="app-links app-sticky">
+        <div className="app-title">
+          <div className="app-frame app-pad app-flush-bottom">
+            <h1>
+              <span className="break">{group.name}</span>
+              <small>group</small>
+            </h1>
+          </div>
+        </div>
+        <div className="app-frame app-pad-h">
+          <ul className="nav nav-tabs">
+            <li>
+              <a href="#details">Details</a>
+            </li>
+            <li>
+              <a href="#nodes">Members</a>
+            </li>
+            {upstream.length ? (
+              <li>
+                <a href="#upstream">Depends On</a>
+              </li>
+            ) : null}
+            {downstream.length ? (
+              <li>
+                <a href="#downstream">Referenced By</a>
+              </li>
+            ) : null}
+          </ul>
+        </div>
+      </div>
+      <div className="app-details">
+        <div className="app-frame app-pad">
+          <section className="section">
+            <div className="section-target" id="details"></div>
+            <div className="section-content">
+              <div className="panel">
+                <div className="panel-body">
+                  <div className="detail-group">
+                    <div className="detail-body">
+                      <dl className="detail">
+                        <dt className="detail-label">Owner</dt>
+                        <dd className="detail-value">
+                          {owner.name ? (
+                            owner.name
+                          ) : owner.email ? (
+                            <a href={`mailto:${owner.email}`}>{owner.email}</a>
+                          ) : (
+                            <span className="text-light">No owner</span>
+                          )}
+                        </dd>
+                      </dl>
+                      {owner.name && owner.email ? (
+                        <dl className="detail">
+                          <dt className="detail-label">Email</dt>
+                          <dd className="detail-value">
+                            <a href={`mailto:${owner.email}`}>{owner.email}</a>
+                          </dd>
+                        </dl>
+                      ) : null}
+                      <dl className="detail">
+                        <dt className="detail-label">Package</dt>
+                        <dd className="detail-value">{group.package_name}</dd>
+                      </dl>
+                      {accessLevels.map((access) => (
+                        <dl className="detail" key={access}>
+                          <dt className="detail-label">
+                            {_.capitalize(access)}
+                          </dt>
+                          <dd className="detail-value">
+                            {(byAccess[access] || []).length}
+                          </dd>
+                        </dl>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              </div>
+              {group.description ? (
+                <>
+                  <h6>Description</h6>
+                  <div className="panel">
+                    <div className="panel-body">
+                      <MarkdownBlock markdown={group.description} />
+                    </div>
+                  </div>
+                </>
+              ) : null}
+            </div>
+          </section>
+
+          <section className="section">
+            <div className="section-target" id="nodes"></div>
+            <div className="section-content">
+              <h6>Members</h6>
+              {nodes.length ? (
+                accessLevels.concat("other").map((access) =>
+                  byAccess[access] ? (
+                    <div key={access}>
+                      <p>
+                        <strong>
+                          {access == "other"
+                            ? "Other resources"
+                            : `${_.capitalize(access)} models`}
+                        </strong>
+                      </p>
+                      <SemanticTable
+                        rows={byAccess[access]}
+                        columns={[
+                          {
+                            title: "Name",
+                            render: (node) => (
+                              <Link href={getNodeUrl(node)}>{node.label}</Link>
+                            ),
+                          },
+                          {
+                            title: "Type",
+                            render: (node) => node.resource_type,
+                          },
+                          {
+                            title: "Version",
+                            render: (node) => node.version,
+                          },
+                        ]}
+                      />
+                    </div>
+                  ) : null
+                )
+              ) : (
+                <div className="panel">
+                  <div className="panel-body">
+                    Nothing belongs to this group
+                  </div>
+                </div>
+              )}
+            </div>
+          </section>
+
+          {upstream.length ? (
+            <section className="section">
+              <div className="section-target" id="upstream"></div>
+              <div className="section-content">
+                <h6>Depends On</h6>
+                <DependencyTable dependencies={upstream} otherTitle="Parent" />
+              </div>
+            </section>
+          ) : null}
+
+          {downstream.length ? (
+            <section className="section">
+              <div className="section-target" id="downstream"></div>
+              <div className="section-content">
+                <h6>Referenced By</h6>
+                <DependencyTable dependencies={downstream} otherTitle="Child" />
+              </div>
+            </section>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export async function generateStaticParams() {
+  await projectService.loadProject();
+  return Object.keys(projectService.project.groups || {}).map((id) => ({
+    id: id,
+  }));
+}
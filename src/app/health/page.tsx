@@ -0,0 +1,141 @@
+import "server-only";
+
+import _ from "lodash";
+import Link from "next/link";
+import * as projectService from "@/app/projectService";
+import { TestStatusBadge } from "@/components/TestStatusBadge";
+import {
+  HealthIssue,
+  buildHealthReport,
+  getHealthOptions,
+} from "@/util/healthRules";
+import { getNodeUrl } from "@/util/nodeUrl";
+import { getGroupUrl } from "@/util/groups";
+
+const linkedResourceTypes = ["model", "source", "seed", "snapshot"];
+
+function issueUrl(issue: HealthIssue) {
+  if (issue.resource_type == "group") {
+    return getGroupUrl(issue);
+  }
+  return _.includes(linkedResourceTypes, issue.resource_type)
+    ? getNodeUrl(issue)
+    : null;
+}
+
+export default async function HealthPage() {
+  await projectService.loadProject();
+  const report = buildHealthReport(projectService.project, getHealthOptions());
+  const byRule = _.groupBy(report.issues, "rule");
+
+  return (
+    <div className="app-scroll">
+      <div className="app-links app-sticky">
+        <div className="app-title">
+          <div className="app-frame app-pad app-flush-bottom">
+            <h1>
+              <span className="break">Project health</span>
+              <small>
+                {report.issues.length} issue
+                {report.issues.length == 1 ? "" : "s"}
+              </small>
+            </h1>
+          </div>
+        </div>
+      </div>
+      <div className="app-details">
+        <div className="app-frame app-pad">
+          <section className="section">
+            <div className="section-target" />
+            <div className="section-content">
+              <h6>Summary</h6>
+              <div className="panel">
+                <div className="panel-body">
+                  <div className="table-responsive">
+                    <table className="table table-borderless table-hover">
+                      <thead>
+                        <tr>
+                          <th>Rule</th>
+                          <th>Severity</th>
+                          <th className="text-right">Issues</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.rules.map((rule) => (
+                          <tr key={rule.id}>
+                            <td title={rule.description}>
+                              {report.summary[rule.id] ? (
+                                <a href={`#${rule.id}`}>{rule.title}</a>
+                              ) : (
+                                rule.title
+                              )}
+                            </td>
+                            <td>
+                              <TestStatusBadge
+                                status={
+                                  report.summary[rule.id]
+                                    ? rule.severity
+                                    : "pass"
+                                }
+                              >
+                                {report.summary[rule.id] ? rule.severity : "ok"}
+                              </TestStatusBadge>
+                            </td>
+                            <td className="text-right">
+                              {report.summary[rule.id]}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <p>
+                    The same report is available as JSON at{" "}
+                    <a
+                      href={`${
+                        process.env.NEXT_PUBLIC_BASE_PATH || ""
+                      }/healthreport`}
+                    >
+                      <code>/healthreport</code>
+                    </a>
+                    .
+                  </p>
+                </div>
+              </div>
+            </div>
+          </section>
+          {report.rules
+            .filter((rule) => byRule[rule.id])
+            .map((rule) => (
+              <section className="section" key={rule.id} id={rule.id}>
+                <div className="section-target" />
+                <div className="section-content">
+                  <h6>{rule.title}</h6>
+                  <div className="panel">
+                    <div className="panel-body">
+                      <p>{rule.description}</p>
+                      <ul>
+                        {byRule[rule.id].map((issue) => {
+                          const url = issueUrl(issue);
+                          return (
+                            <li key={issue.unique_id}>
+                              {url ? (
+                                <Link href={url}>{issue.name}</Link>
+                              ) : (
+                                <code>{issue.name}</code>
+                              )}{" "}
+                              {issue.message}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </div>
+                  </div>
+                </div>
+              </section>
+            ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import { loadProject, project } from "@/app/projectService";
+import { buildHealthReport, getHealthOptions } from "@/util/healthRules";
+import { NextResponse } from "next/server";
+
+// Machine readable version of the /health page, written to the export when
+// the site is built so CI can fail on or track the issues found.
+export async function GET() {
+  await loadProject();
+  const report = buildHealthReport(project, getHealthOptions());
+  return NextResponse.json(report);
+}
+
+export const revalidate = Infinity;
@@ -35,7 +35,9 @@ export default async function RootLayout({
       <body className={inter.className}>
         <main className="mx-8">
           <div>
-            <GraphLauncher />
+            <Suspense>
+              <GraphLauncher />
+            </Suspense>
             <div className="app app-row">
               <div className="app-menu app-column">
                 <div className="app-overlay" data-toggle=".app-menu"></div>
@@ -24,7 +24,7 @@ export default async function MacroPage({
   let defaultVersion;
   // adapter macros
   if (macro.is_adapter_macro) {
-    const adapter = projectService.project.metadata.adapter_type;
+    const adapter = projectService.project.metadata.adapter_type || "default";
     versions = macro.impls;
     if (macro.impls[adapter]) {
       defaultVersion = adapter;
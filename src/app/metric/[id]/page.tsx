@@ -11,6 +11,16 @@ import Link from "next/link";
 import { SetActive } from "@/components/SetActive";
 import { filterNodes } from "@/util/filterNodes";
 import { MarkdownBlock } from "@/components/MarkdownBlock";
+import { DocBlockLinks } from "@/components/DocBlockLinks";
+import { SemanticTable } from "@/components/SemanticTable";
+import { getNodeUrl } from "@/util/nodeUrl";
+import {
+  describeMetricType,
+  getMetricInputs,
+  getMetricTypeDetails,
+  isMetricFlowMetric,
+} from "@/util/semanticLayer";
+import { ChangeBanner } from "@/components/ChangeBanner";
 
 export default async function MetricPage({
   params: { id },
@@ -22,18 +32,21 @@ export default async function MetricPage({
   const parents = getParents(projectService.project, metric);
   const parentsLength = Object.keys(parents).length;
 
-  const metric_type =
-    metric.type === "expression" ? "Expression metric" : "Aggregate metric";
+  const inputs = isMetricFlowMetric(metric)
+    ? getMetricInputs(projectService.project, metric)
+    : { measures: [], metrics: [] };
+  const inputsLength = inputs.measures.length + inputs.metrics.length;
 
   const extra_table_fields = [
     {
       name: "Metric Type",
-      value: metric_type,
+      value: describeMetricType(metric),
     },
     {
       name: "Metric name",
       value: metric.name,
     },
+    ...getMetricTypeDetails(metric),
   ];
 
   return (
@@ -48,6 +61,7 @@ export default async function MetricPage({
 
               <div className="clearfix"></div>
             </h1>
+            <ChangeBanner node={metric} />
           </div>
         </div>
         <div className="app-frame app-pad-h">
@@ -58,6 +72,11 @@ export default async function MetricPage({
             <li>
               <a href="#description">Description</a>
             </li>
+            {inputsLength ? (
+              <li>
+                <a href="#inputs">Inputs</a>
+              </li>
+            ) : null}
             {parentsLength ? (
               <li>
                 <a href="#depends_on">Depends On</a>
@@ -82,6 +101,7 @@ export default async function MetricPage({
                   {metric.description ? (
                     <div className="model-markdown">
                       <MarkdownBlock markdown={metric.description} />
+                      <DocBlockLinks ids={metric.doc_blocks} />
                     </div>
                   ) : (
                     <div>
@@ -93,6 +113,79 @@ export default async function MetricPage({
             </div>
           </section>
 
+          {inputsLength ? (
+            <section className="section">
+              <div className="section-target" id="inputs"></div>
+              <div className="section-content">
+                <h6>Inputs</h6>
+                {inputs.measures.length ? (
+                  <SemanticTable
+                    rows={inputs.measures}
+                    columns={[
+                      {
+                        title: "Measure",
+                        render: (input) =>
+                          input.semantic_model ? (
+                            <Link
+                              href={`${getNodeUrl(
+                                input.semantic_model
+                              )}#measure-${input.name}`}
+                            >
+                              {input.name}
+                            </Link>
+                          ) : (
+                            input.name
+                          ),
+                      },
+                      {
+                        title: "Semantic model",
+                        render: (input) =>
+                          input.semantic_model
+                            ? input.semantic_model.label
+                            : null,
+                      },
+                      {
+                        title: "Filter",
+                        render: (input) =>
+                          input.filter ? <code>{input.filter}</code> : null,
+                      },
+                    ]}
+                  />
+                ) : null}
+                {inputs.metrics.length ? (
+                  <SemanticTable
+                    rows={inputs.metrics}
+                    columns={[
+                      {
+                        title: "Metric",
+                        render: (input) =>
+                          input.metric ? (
+                            <Link href={getNodeUrl(input.metric)}>
+                              {input.metric.label}
+                            </Link>
+                          ) : (
+                            input.name
+                          ),
+                      },
+                      { title: "Role", render: (input) => input.role },
+                      { title: "Alias", render: (input) => input.alias },
+                      {
+                        title: "Offset",
+                        render: (input) =>
+                          input.offset_window || input.offset_to_grain,
+                      },
+                      {
+                        title: "Filter",
+                        render: (input) =>
+                          input.filter ? <code>{input.filter}</code> : null,
+                      },
+                    ]}
+                  />
+                ) : null}
+              </div>
+            </section>
+          ) : null}
+
           {parentsLength ? (
             <section className="section">
               <div className="section-target" id="depends_on"></div>
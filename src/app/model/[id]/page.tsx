@@ -10,6 +10,18 @@ import { getReferences, getParents } from "@/util/dagUtils";
 import { SetActive } from "@/components/SetActive";
 import { filterNodes } from "@/util/filterNodes";
 import { MarkdownBlock } from "@/components/MarkdownBlock";
+import { DocBlockLinks } from "@/components/DocBlockLinks";
+import { ContractDetails } from "@/components/ContractDetails";
+import { getContract, hasContract } from "@/util/contracts";
+import {
+  DeprecationBanner,
+  ModelVersions,
+  VersionBadge,
+  VersionSwitcher,
+} from "@/components/ModelVersions";
+import { getModelVersions } from "@/util/modelVersions";
+import { ChangeBanner, getNodeChange } from "@/components/ChangeBanner";
+import { ImpactAnalysis } from "@/components/ImpactAnalysis";
 
 export default async function ModelPage({
   params: { id },
@@ -22,11 +34,15 @@ export default async function ModelPage({
   const referencesLength = Object.keys(references).length;
   const parents = getParents(projectService.project, model);
   const parentsLength = Object.keys(parents).length;
+  const contract = hasContract(model)
+    ? getContract(projectService.project, model)
+    : null;
+  const modelVersions = getModelVersions(projectService.project, model);
 
   const default_compiled = "\n-- compiled code not found for this model\n";
   const versions = {
-    Source: model.raw_code || model.raw_sql || "",
-    Compiled: model.compiled_code || model.compiled_sql || default_compiled,
+    Source: model.raw_code,
+    Compiled: model.compiled_code || default_compiled,
   };
 
   return (
@@ -46,8 +62,18 @@ export default async function ModelPage({
               ) : null}
               <h1>
                 <span className="break">{model.name}</span>
+                {model.version != null ? (
+                  <small>
+                    v{model.version} <VersionBadge model={model} />
+                  </small>
+                ) : null}
                 <small>{model.config.materialized}</small>
               </h1>
+              {modelVersions.length > 1 ? (
+                <VersionSwitcher model={model} versions={modelVersions} />
+              ) : null}
+              <DeprecationBanner model={model} />
+              <ChangeBanner node={model} />
             </div>
           </div>
           <div className="app-frame app-pad-h">
@@ -61,11 +87,26 @@ export default async function ModelPage({
               <li>
                 <a href="#columns">Columns</a>
               </li>
+              {contract ? (
+                <li>
+                  <a href="#contract">Contract</a>
+                </li>
+              ) : null}
+              {modelVersions.length > 1 ? (
+                <li>
+                  <a href="#versions">Versions</a>
+                </li>
+              ) : null}
               {referencesLength != 0 ? (
                 <li>
                   <a href="#referenced_by">Referenced By</a>
                 </li>
               ) : null}
+              {referencesLength != 0 ? (
+                <li>
+                  <a href="#impact">Impact</a>
+                </li>
+              ) : null}
               {parentsLength != 0 ? (
                 <li>
                   <a href="#depends_on">Depends On</a>
@@ -93,6 +134,7 @@ export default async function ModelPage({
                     {model.description ? (
                       <div className="model-markdown">
                         <MarkdownBlock markdown={model.description} />
+                        <DocBlockLinks ids={model.doc_blocks} />
                       </div>
                     ) : (
                       <div>
@@ -111,6 +153,27 @@ export default async function ModelPage({
                 <ColumnDetails model={model} />
               </div>
             </section>
+            {contract ? (
+              <section className="section">
+                <div className="section-target" id="contract"></div>
+                <div className="section-content">
+                  <h6>Contract</h6>
+                  <ContractDetails
+                    contract={contract}
+                    showTypes={!projectService.project.catalog_missing}
+                  />
+                </div>
+              </section>
+            ) : null}
+            {modelVersions.length > 1 ? (
+              <section className="section">
+                <div className="section-target" id="versions"></div>
+                <div className="section-content">
+                  <h6>Versions</h6>
+                  <ModelVersions model={model} versions={modelVersions} />
+                </div>
+              </section>
+            ) : null}
             {referencesLength != 0 ? (
               <section className="section">
                 <div className="section-target" id="referenced_by"></div>
@@ -120,6 +183,15 @@ export default async function ModelPage({
                 </div>
               </section>
             ) : null}
+            {referencesLength != 0 ? (
+              <section className="section">
+                <div className="section-target" id="impact"></div>
+                <div className="section-content">
+                  <h6>Impact</h6>
+                  <ImpactAnalysis node={model} />
+                </div>
+              </section>
+            ) : null}
             {parentsLength != 0 ? (
               <section className="section">
                 <div className="section-target" id="depends_on"></div>
@@ -135,7 +207,8 @@ export default async function ModelPage({
                 <CodeBlock
                   versions={versions}
                   defaultVersion={"Source"}
-                  language={model.raw_sql ? "sql" : "python"}
+                  language={model.language}
+                  baseline={getNodeChange(model)?.baseline_code}
                 />
               </div>
             </section>
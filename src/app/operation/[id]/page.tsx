@@ -8,6 +8,7 @@ import { getParents } from "@/util/dagUtils";
 import { SetActive } from "@/components/SetActive";
 import { filterNodes } from "@/util/filterNodes";
 import { MarkdownBlock } from "@/components/MarkdownBlock";
+import { DocBlockLinks } from "@/components/DocBlockLinks";
 
 export default async function OperationPage({
   params: { id },
@@ -64,6 +65,7 @@ export default async function OperationPage({
                   {model.description ? (
                     <div className="model-markdown">
                       <MarkdownBlock markdown={model.description} />
+                      <DocBlockLinks ids={model.doc_blocks} />
                     </div>
                   ) : (
                     <div>
@@ -90,7 +92,7 @@ export default async function OperationPage({
               <CodeBlock
                 versions={versions}
                 defaultVersion={"Source"}
-                language={"python"}
+                language={model.language}
               />
             </div>
           </section>
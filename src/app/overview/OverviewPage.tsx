@@ -27,6 +27,23 @@ export default async function OverviewPage({ id }: { id?: string }) {
   return (
     <div className="app-details app-scroll app-pad">
       <div className="app-frame app-pad">
+        {project.diagnostics.length ? (
+          <div className="panel panel-default">
+            <div className="panel-body">
+              <h6>Artifacts</h6>
+              {project.diagnostics.map((diagnostic: any, index: number) => (
+                <div
+                  key={index}
+                  className={
+                    diagnostic.level == "info" ? "text-light" : "text-danger"
+                  }
+                >
+                  {diagnostic.message} <code>{diagnostic.path}</code>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : null}
         <div className="panel panel-default">
           <div className="panel-body">
             <p>
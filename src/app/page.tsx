@@ -1,8 +1,10 @@
 import React, { Suspense } from "react";
+import { LegacyRedirect } from "@/components/LegacyRedirect";
 
 export default function Home() {
   return (
     <div className="app-details app-scroll app-pad">
+      <LegacyRedirect />
       <div className="app-frame app-pad">
         <div className="panel panel-default">
           <div className="panel-body">
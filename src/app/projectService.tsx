@@ -1,12 +1,23 @@
 import "server-only";
 
-import process from "process";
-import fs from "fs";
-import path from "path";
 import _ from "lodash";
 import merge from "deepmerge";
 import { getQuoteChar } from "./compat";
 import { getShortID } from "@/util/nodeUrl";
+import { getGroupId } from "@/util/groups";
+import { buildChildMap, resolveCrossProjectRefs } from "@/util/dagUtils";
+import { selectNodes } from "@/util/selectorUtils";
+import { attachDocBlocks } from "@/util/docBlocks";
+import { buildChanges } from "@/util/artifactDiff";
+import {
+  getArtifactDirs,
+  getBaselineDir,
+  getRunHistoryDir,
+  loadArtifacts,
+  loadRunHistory,
+} from "./artifactService";
+import { Manifest, ManifestMacro, ManifestNode } from "@/schemas/model";
+import { normalizeManifest } from "@/schemas/normalize";
 
 function capitalizeType(type: any) {
   const staticCapitalizations: any = {
@@ -18,10 +29,21 @@ function capitalizeType(type: any) {
   return type.charAt(0).toUpperCase() + type.slice(1);
 }
 
-export const project: any = {
-  nodes: {},
+// The loaded site: all manifests merged with their catalogs. Sources,
+// exposures, metrics, semantic models and saved queries are also available
+// from `nodes`.
+export type Project = Manifest & {
+  nodes: Record<string, ManifestNode & { [key: string]: any }>;
+  // always present once loaded, see build_dag_maps
+  parent_map: Record<string, string[]>;
+  child_map: Record<string, string[]>;
+  [key: string]: any;
 };
 
+export const project: Project = {
+  nodes: {},
+} as Project;
+
 export const tree: any = {
   project: [],
   database: [],
@@ -43,6 +65,18 @@ export function node(unique_id: string) {
   return _.find(project.nodes, { unique_id: unique_id });
 }
 
+// Owner names and emails of a node: its group owner, the owner declared on
+// an exposure, or the table owner reported by the catalog.
+export function get_owners(node: any): string[] {
+  const groupId = getGroupId(node);
+  const group = groupId ? _.get(project.groups, [groupId]) : null;
+  const owner = group ? group.owner : node.owner;
+  if (owner && typeof owner == "object") {
+    return _.compact([owner.name, owner.email]);
+  }
+  return _.compact([owner || _.get(node, ["metadata", "owner"])]);
+}
+
 export function match_dict_keys(dest_keys: string[], obj: any) {
   var new_obj: any = {};
   if (obj) {
@@ -79,6 +113,9 @@ function incorporate_catalog(manifest: any, catalog: any): any {
   remapNodeIds(manifest.sources);
   remapNodeIds(manifest.exposures);
   remapNodeIds(manifest.metrics);
+  remapNodeIds(manifest.semantic_models);
+  remapNodeIds(manifest.saved_queries);
+  remapNodeIds(manifest.docs);
 
   // Re-combine sources and nodes
   _.each(catalog.sources, function (source, source_id) {
@@ -103,40 +140,220 @@ function incorporate_catalog(manifest: any, catalog: any): any {
   return merge(catalog, manifest);
 }
 
+// Seconds between two run_results timestamps
+function phase_duration(phase: any) {
+  if (!phase || !phase.started_at || !phase.completed_at) {
+    return null;
+  }
+  return (Date.parse(phase.completed_at) - Date.parse(phase.started_at)) / 1000;
+}
+
+// Attaches the outcome of `dbt run`, `dbt test` or `dbt build` to each node.
+// `run_results` lists every result found in the loaded run_results.json
+// files, newest first, and `run_result` is the newest one. Test statuses are
+// pass/warn/fail/error/skipped, other nodes report success/error/skipped.
+function incorporate_run_results(nodes: any, run_results: any[]) {
+  _.each(run_results, function (run_results) {
+    _.each(run_results.results, function (result: any) {
+      const node = nodes[getShortID(result.unique_id)];
+      if (!node) {
+        return;
+      }
+      const compile = _.find(result.timing, { name: "compile" });
+      const execute = _.find(result.timing, { name: "execute" });
+      const adapter_response = result.adapter_response || {};
+      node.run_results = node.run_results || [];
+      node.run_results.push({
+        status: result.status,
+        failures: result.failures,
+        execution_time: result.execution_time,
+        compile_time: phase_duration(compile),
+        execute_time: phase_duration(execute),
+        rows_affected: adapter_response.rows_affected,
+        bytes_processed: adapter_response.bytes_processed,
+        message: result.message,
+        completed_at: execute
+          ? execute.completed_at
+          : run_results.metadata.generated_at,
+      });
+    });
+  });
+
+  _.each(nodes, function (node: any) {
+    if (node.run_results) {
+      node.run_results = _.orderBy(node.run_results, "completed_at", "desc");
+      node.run_result = node.run_results[0];
+    }
+  });
+}
+
+// Attaches the outcome of the last `dbt source freshness` to each source
+// table as `freshness_result`. Statuses are pass/warn/error/runtime error.
+function incorporate_source_freshness(nodes: any, freshness: any[]) {
+  _.each(freshness, function (freshness) {
+    _.each(freshness.results, function (result: any) {
+      const node = nodes[getShortID(result.unique_id)];
+      if (!node) {
+        return;
+      }
+      node.freshness_result = {
+        status: result.status,
+        max_loaded_at: result.max_loaded_at,
+        snapshotted_at: result.snapshotted_at,
+        age: result.max_loaded_at_time_ago_in_s,
+        criteria: result.criteria,
+        error: result.error,
+      };
+    });
+  });
+}
+
 let _isLoadingPromise: Promise<void>;
 export async function loadProject() {
   if (!_isLoadingPromise) {
-    _isLoadingPromise = new Promise(async (res) => {
-      await loadProjectImpl();
-      res();
-    });
+    // Artifact errors reject the promise so the build fails with them
+    _isLoadingPromise = loadProjectImpl();
   }
   return await _isLoadingPromise;
 }
 
-async function loadProjectImpl() {
-  const [manifest, catalog] = await Promise.all([
-    new Promise((res) => {
-      fs.readFile(
-        path.join(process.cwd(), "/manifest.json"),
-        { encoding: "utf8" },
-        (err, data) => {
-          res(data);
+const mergedManifestKeys = [
+  "nodes",
+  "sources",
+  "macros",
+  "exposures",
+  "metrics",
+  "groups",
+  "docs",
+  "semantic_models",
+  "saved_queries",
+  "selectors",
+];
+
+// Merges the artifacts of several dbt projects into one manifest and catalog.
+// Each resource is tagged with the project it was loaded from. A project's
+// manifest also carries stubs of the public models it refs in other projects;
+// when that other project is loaded too, its own copy of the model wins.
+function merge_artifacts(artifacts: any[]) {
+  const project_names = _.map(artifacts, (artifact) =>
+    _.get(artifact.manifest, ["metadata", "project_name"])
+  );
+  const isForeign = (package_name: string, project_name: string) =>
+    package_name != project_name && _.includes(project_names, package_name);
+
+  // Everything that is not merged, like metadata, comes from the first project
+  const manifest: any = _.omit(artifacts[0].manifest, mergedManifestKeys);
+  const catalog: any = _.assign({}, artifacts[0].catalog, {
+    nodes: {},
+    sources: {},
+  });
+
+  _.each(artifacts, function ({ manifest: m, catalog: c }, index) {
+    const project_name = project_names[index];
+
+    // dbt 1.6 manifests keep cross-project models apart in public_nodes
+    const nodes = _.assign({}, m.public_nodes, m.nodes);
+    _.each(mergedManifestKeys, function (key) {
+      const resources = key == "nodes" ? nodes : m[key];
+      manifest[key] = manifest[key] || {};
+      _.each(resources, function (resource: any, unique_id: string) {
+        if (
+          isForeign(resource.package_name, project_name) ||
+          manifest[key][unique_id]
+        ) {
+          return;
         }
-      );
-    }),
-    new Promise((res) => {
-      fs.readFile(
-        path.join(process.cwd(), "/catalog.json"),
-        { encoding: "utf8" },
-        (err, data) => {
-          res(data);
+        resource.project_name = project_name;
+        manifest[key][unique_id] = resource;
+      });
+    });
+
+    _.each(["parent_map", "child_map"], function (key) {
+      if (index == 0 || !m[key]) {
+        return;
+      }
+      manifest[key] = manifest[key] || {};
+      _.each(m[key], function (ids: string[], unique_id: string) {
+        manifest[key][unique_id] = _.union(manifest[key][unique_id] || [], ids);
+      });
+    });
+
+    _.each(["nodes", "sources"], function (key) {
+      _.each(c[key], function (entry: any, unique_id: string) {
+        if (
+          isForeign(unique_id.split(".")[1], project_name) ||
+          catalog[key][unique_id]
+        ) {
+          return;
         }
-      );
-    }),
-  ]);
-  files.manifest = JSON.parse(manifest as string);
-  files.catalog = JSON.parse(catalog as string);
+        catalog[key][unique_id] = entry;
+      });
+    });
+  });
+
+  return { manifest, catalog };
+}
+
+// The baseline is only compared with the project, so it gets the catalog
+// columns and labels but none of the other processing
+async function loadBaseline(dir: string) {
+  const artifact = await loadArtifacts(dir);
+  const manifest = artifact.manifest;
+  normalizeManifest(manifest);
+  _.each(mergedManifestKeys, function (key) {
+    manifest[key] = manifest[key] || {};
+  });
+
+  _.each(manifest.nodes, function (node: any) {
+    node.label =
+      node.resource_type == "model" && node.version != null
+        ? node.name + "_v" + node.version
+        : node.name;
+  });
+  _.each(manifest.sources, function (node: any) {
+    node.label = "" + node.source_name + "." + node.name;
+  });
+  _.each(
+    _.concat<any>(
+      _.values(manifest.sources),
+      _.values(manifest.exposures),
+      _.values(manifest.metrics),
+      _.values(manifest.semantic_models),
+      _.values(manifest.saved_queries)
+    ),
+    function (node: any) {
+      node.label = node.label || node.name;
+      manifest.nodes[node.unique_id] = node;
+    }
+  );
+  return incorporate_catalog(manifest, artifact.catalog);
+}
+
+async function loadProjectImpl() {
+  const dirs = getArtifactDirs();
+  const artifacts = await Promise.all(dirs.map(loadArtifacts));
+  _.each(artifacts, (artifact) => normalizeManifest(artifact.manifest));
+  const merged = merge_artifacts(artifacts);
+  files.manifest = merged.manifest;
+  files.catalog = merged.catalog;
+  project.projects = _.map(artifacts, (artifact) => ({
+    name: _.get(artifact.manifest, ["metadata", "project_name"]),
+    dir: artifact.dir,
+  }));
+  project.diagnostics = _.flatMap(artifacts, "diagnostics");
+  // Without a catalog pages are rendered from the manifest alone
+  project.catalog_missing = _.some(artifacts, "catalog_missing");
+  project.run_results = _.compact(_.map(artifacts, "run_results"));
+  const runHistoryDir = getRunHistoryDir();
+  if (runHistoryDir) {
+    // the history may well hold a copy of the current run_results.json
+    project.run_results = _.uniqBy(
+      project.run_results.concat(await loadRunHistory(runHistoryDir)),
+      (run_results: any) =>
+        _.get(run_results, ["metadata", "invocation_id"]) || _.uniqueId()
+    );
+  }
+  project.source_freshness = _.compact(_.map(artifacts, "sources"));
 
   // Set node labels
   _.each(files.manifest.nodes, function (node: any) {
@@ -169,6 +386,18 @@ async function loadProjectImpl() {
     files.manifest.nodes[node.unique_id] = node;
   });
 
+  // Same for the semantic layer, which has no labels before dbt 1.7
+  _.each(
+    _.concat<any>(
+      _.values(files.manifest.semantic_models),
+      _.values(files.manifest.saved_queries)
+    ),
+    function (node: any) {
+      node.label = node.label || node.name;
+      files.manifest.nodes[node.unique_id] = node;
+    }
+  );
+
   const adapter = files.manifest.metadata.adapter_type;
   const macros = clean_project_macros(files.manifest.macros, adapter);
   files.manifest.macros = macros;
@@ -178,6 +407,12 @@ async function loadProjectImpl() {
     files.catalog
   );
 
+  incorporate_run_results(incorporatedProject.nodes, project.run_results);
+  incorporate_source_freshness(
+    incorporatedProject.nodes,
+    project.source_freshness
+  );
+
   const models = incorporatedProject.nodes;
   const model_names = _.keyBy(models, "name");
 
@@ -199,6 +434,8 @@ async function loadProjectImpl() {
 
     var test_info: any = {
       test_name: test_name,
+      unique_id: test.unique_id,
+      result: test.run_result,
     };
     if (test.test_metadata.name == "not_null") {
       test_info.short = "N";
@@ -207,7 +444,7 @@ async function loadProjectImpl() {
       test_info.short = "U";
       test_info.label = "Unique";
     } else if (test.test_metadata.name == "relationships") {
-      var rel_model_name = test.refs[0];
+      var rel_model_name = test.refs[0].name;
       var rel_model = model_names[rel_model_name];
       if (rel_model && test.test_metadata.kwargs.field) {
         // FKs get extra fields
@@ -267,6 +504,16 @@ async function loadProjectImpl() {
   });
 
   Object.assign(project, incorporatedProject);
+  build_dag_maps(project);
+  attachDocBlocks(project.nodes, project.docs);
+
+  const baselineDir = getBaselineDir();
+  if (baselineDir) {
+    project.changes = buildChanges(
+      await loadBaseline(baselineDir),
+      project.nodes
+    );
+  }
 
   // performance hack
   var search_macros = _.filter(project.macros, function (macro) {
@@ -281,7 +528,7 @@ async function loadProjectImpl() {
   });
 
   project.searchable = _.filter(
-    search_nodes.concat(search_macros),
+    _.concat<ManifestNode | ManifestMacro>(search_nodes, search_macros),
     function (obj) {
       // It should not be possible to search for hidden documentation
       return !obj.docs || obj.docs.show;
@@ -297,6 +544,31 @@ async function loadProjectImpl() {
   });
 }
 
+// parent_map and child_map come from the manifest keyed by full unique_ids, so
+// they are remapped to the short ids used everywhere else on the site, with
+// cross-project refs resolved to the loaded model. Older manifests without a
+// parent_map fall back to each node's depends_on.
+function build_dag_maps(project: any) {
+  const parent_map: any = {};
+  if (project.parent_map) {
+    _.each(project.parent_map, function (parents: string[], unique_id) {
+      parent_map[getShortID(unique_id)] = _.map(parents, (id) =>
+        getShortID(id)
+      );
+    });
+  } else {
+    _.each(project.nodes, function (node: any) {
+      const parents = _.get(node, ["depends_on", "nodes"], []);
+      parent_map[node.unique_id] = _.map(parents, (id: string) =>
+        getShortID(id)
+      );
+    });
+  }
+
+  project.parent_map = resolveCrossProjectRefs(parent_map, project.nodes);
+  project.child_map = buildChildMap(project.parent_map);
+}
+
 function clean_project_macros(macros: any, adapter: any) {
   const all_macros = macros || [];
 
@@ -341,18 +613,33 @@ export function getModelTree(select: any, cb: (model: any) => void) {
     return _.includes(accepted, node.resource_type);
   });
 
+  var sources = _.values(project.sources);
+  var exposures = _.values(project.exposures);
+  var metrics = _.values(project.metrics);
+  var semantic_models = _.values(project.semantic_models);
+  var saved_queries = _.values(project.saved_queries);
+
+  if (select) {
+    // macros are not part of the DAG, so a selector never matches them
+    var selected = _.keyBy(selectNodes(project, project.nodes, select));
+    var isSelected = (node: any) => _.has(selected, node.unique_id);
+    macros = [];
+    nodes = _.filter(nodes, isSelected);
+    sources = _.filter(sources, isSelected);
+    exposures = _.filter(exposures, isSelected);
+    metrics = _.filter(metrics, isSelected);
+    semantic_models = _.filter(semantic_models, isSelected);
+    saved_queries = _.filter(saved_queries, isSelected);
+  }
+
   tree.database = buildDatabaseTree(nodes, select);
   tree.groups = buildGroupTree(nodes, select);
   tree.project = buildProjectTree(nodes, macros, select);
-
-  var sources = _.values(project.sources);
   tree.sources = buildSourceTree(sources, select);
-
-  var exposures = _.values(project.exposures);
   tree.exposures = buildExposureTree(exposures, select);
-
-  var metrics = _.values(project.metrics);
   tree.metrics = buildMetricTree(metrics, select);
+  tree.semantic_models = buildPackageTree(semantic_models, "semantic_model");
+  tree.saved_queries = buildPackageTree(saved_queries, "saved_query");
 
   cb(tree);
 }
@@ -445,35 +732,40 @@ function buildExposureTree(nodes: any, select: any) {
 }
 
 function buildMetricTree(nodes: any, select: any) {
-  let metrics: any = {};
+  return buildPackageTree(nodes, "metric");
+}
+
+// One folder per package, as used for metrics and the semantic layer
+function buildPackageTree(nodes: any, node_type: string) {
+  let packages: any = {};
 
   _.each(nodes, function (node) {
     const project = node.package_name;
 
-    if (!metrics[project]) {
-      metrics[project] = {
+    if (!packages[project]) {
+      packages[project] = {
         type: "folder",
         name: project,
         items: [],
       };
     }
 
-    metrics[project].items.push({
+    packages[project].items.push({
       type: "file",
       name: node.label,
       resource_type: node.resource_type,
       unique_id: node.unique_id,
-      node_type: "metric",
+      node_type: node_type,
     });
   });
 
-  metrics = _.sortBy(_.values(metrics), "name");
+  packages = _.sortBy(_.values(packages), "name");
 
-  _.each(metrics, function (metric) {
-    metrics.items = _.sortBy(metrics.items, "name");
+  _.each(packages, function (folder) {
+    folder.items = _.sortBy(folder.items, "name");
   });
 
-  return metrics;
+  return packages;
 }
 
 function consolidateAdapterMacros(macros: any, adapter: any) {
@@ -514,6 +806,18 @@ function consolidateAdapterMacros(macros: any, adapter: any) {
   return to_return.concat(extras);
 }
 
+// Package followed by the folders and file name of the node's source file, the
+// path a node is listed under in the project tree
+export function get_project_path(node: any) {
+  if (node.original_file_path.indexOf("\\") != -1) {
+    var path_parts = node.original_file_path.split("\\");
+  } else {
+    var path_parts = node.original_file_path.split("/");
+  }
+
+  return [node.package_name].concat(path_parts);
+}
+
 function buildProjectTree(nodes: any, macros: any, select: any) {
   var tree = {};
 
@@ -533,13 +837,7 @@ function buildProjectTree(nodes: any, macros: any, select: any) {
       return;
     }
 
-    if (node.original_file_path.indexOf("\\") != -1) {
-      var path_parts = node.original_file_path.split("\\");
-    } else {
-      var path_parts = node.original_file_path.split("/");
-    }
-
-    var path = [node.package_name].concat(path_parts);
+    var path = get_project_path(node);
 
     var dirpath = _.initial(path);
 
@@ -639,6 +937,7 @@ function buildDatabaseTree(nodes: any, select: any) {
   return databases;
 }
 
+// Items only carry what the menu needs, as this is served with every page
 function buildGroupTree(nodes: any, select: any) {
   let groups: any = {};
 
@@ -646,7 +945,8 @@ function buildGroupTree(nodes: any, select: any) {
     const show = _.get(node, ["docs", "show"], true);
     const excludeNodes = ["source", "exposure", "seed", "macro"];
     if (
-      node.resource_type in excludeNodes ||
+      !node.group ||
+      _.includes(excludeNodes, node.resource_type) ||
       !show ||
       node.access === "private"
     ) {
@@ -665,12 +965,13 @@ function buildGroupTree(nodes: any, select: any) {
         ? `${display_name} (protected)`
         : display_name;
 
-    var group = node.group;
+    var group = getGroupId(node) as string;
 
     if (!groups[group]) {
       groups[group] = {
         type: "group",
-        name: group,
+        name: node.group,
+        group_id: group,
         items: [],
       };
     }
@@ -680,7 +981,6 @@ function buildGroupTree(nodes: any, select: any) {
       name: name,
       resource_type: node.resource_type,
       unique_id: node.unique_id,
-      node_type: "model",
     });
   });
 
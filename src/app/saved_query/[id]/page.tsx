@@ -0,0 +1,208 @@
+import "server-only";
+
+import _ from "underscore";
+import Link from "next/link";
+import * as projectService from "@/app/projectService";
+import { TableDetails } from "@/components/TableDetails";
+import { ReferenceList } from "@/components/ReferenceList";
+import { SemanticTable } from "@/components/SemanticTable";
+import { getReferences, getParents } from "@/util/dagUtils";
+import { SetActive } from "@/components/SetActive";
+import { filterNodes } from "@/util/filterNodes";
+import { MarkdownBlock } from "@/components/MarkdownBlock";
+import { DocBlockLinks } from "@/components/DocBlockLinks";
+import { getNodeUrl } from "@/util/nodeUrl";
+import { describeFilter, findMetric } from "@/util/semanticLayer";
+import { ChangeBanner } from "@/components/ChangeBanner";
+
+export default async function SavedQueryPage({
+  params: { id },
+}: {
+  params: { id: string };
+}) {
+  await projectService.loadProject();
+  const savedQuery = projectService.project.nodes[id];
+  const parents = getParents(projectService.project, savedQuery);
+  const parentsLength = Object.keys(parents).length;
+  const references = getReferences(projectService.project, savedQuery);
+  const referencesLength = Object.keys(references).length;
+
+  const query = savedQuery.query_params || {};
+  const metrics = _.map(query.metrics || [], (name: string) => ({
+    name: name,
+    metric: findMetric(projectService.project, name),
+  }));
+  const exports = savedQuery.exports || [];
+
+  const extra_table_fields = [
+    {
+      name: "Metrics",
+      value: metrics.length ? (
+        <span>
+          {metrics.map(({ name, metric }: any, index: number) => (
+            <span key={name}>
+              {index ? ", " : null}
+              {metric ? (
+                <Link href={getNodeUrl(metric)}>{metric.label}</Link>
+              ) : (
+                name
+              )}
+            </span>
+          ))}
+        </span>
+      ) : undefined,
+    },
+    {
+      name: "Group by",
+      value: (query.group_by || []).length ? (
+        <span>
+          {query.group_by.map((group: string, index: number) => (
+            <span key={group}>
+              {index ? ", " : null}
+              <code>{group}</code>
+            </span>
+          ))}
+        </span>
+      ) : undefined,
+    },
+    {
+      name: "Where",
+      value: describeFilter(query.where),
+    },
+    {
+      name: "Order by",
+      value: (query.order_by || []).length
+        ? query.order_by.join(", ")
+        : undefined,
+    },
+    {
+      name: "Limit",
+      value: query.limit == null ? undefined : query.limit,
+    },
+  ];
+
+  return (
+    <div className="app-scroll">
+      <SetActive uniqueId={id} />
+      <div className="app-links app-sticky">
+        <div className="app-title">
+          <div className="app-frame app-pad app-flush-bottom">
+            <h1>
+              <span className="break">{savedQuery.label}</span>
+              <small>saved query</small>
+
+              <div className="clearfix"></div>
+            </h1>
+            <ChangeBanner node={savedQuery} />
+          </div>
+        </div>
+        <div className="app-frame app-pad-h">
+          <ul className="nav nav-tabs">
+            <li>
+              <a href="#details">Details</a>
+            </li>
+            <li>
+              <a href="#description">Description</a>
+            </li>
+            {exports.length ? (
+              <li>
+                <a href="#exports">Exports</a>
+              </li>
+            ) : null}
+            {referencesLength ? (
+              <li>
+                <a href="#referenced_by">Referenced By</a>
+              </li>
+            ) : null}
+            {parentsLength ? (
+              <li>
+                <a href="#depends_on">Depends On</a>
+              </li>
+            ) : null}
+          </ul>
+        </div>
+      </div>
+      <div className="app-details">
+        <div className="app-frame app-pad">
+          <section className="section">
+            <div className="section-target" id="details"></div>
+            <TableDetails model={savedQuery} extras={extra_table_fields} />
+          </section>
+
+          <section className="section">
+            <div className="section-target" id="description"></div>
+            <div className="section-content">
+              <h6>Description</h6>
+              <div className="panel">
+                <div className="panel-body">
+                  {savedQuery.description ? (
+                    <div className="model-markdown">
+                      <MarkdownBlock markdown={savedQuery.description} />
+                      <DocBlockLinks ids={savedQuery.doc_blocks} />
+                    </div>
+                  ) : (
+                    <div>This saved query is not currently documented</div>
+                  )}
+                </div>
+              </div>
+            </div>
+          </section>
+
+          {exports.length ? (
+            <section className="section">
+              <div className="section-target" id="exports"></div>
+              <div className="section-content">
+                <h6>Exports</h6>
+                <SemanticTable
+                  rows={exports}
+                  columns={[
+                    { title: "Name", render: (exp) => exp.name },
+                    {
+                      title: "Export as",
+                      render: (exp) => _.property(["config", "export_as"])(exp),
+                    },
+                    {
+                      title: "Relation",
+                      render: (exp) =>
+                        _.compact([
+                          _.property(["config", "database"])(exp),
+                          _.property(["config", "schema_name"])(exp),
+                          _.property(["config", "alias"])(exp) || exp.name,
+                        ]).join("."),
+                    },
+                  ]}
+                />
+              </div>
+            </section>
+          ) : null}
+
+          {referencesLength ? (
+            <section className="section">
+              <div className="section-target" id="referenced_by"></div>
+              <div className="section-content">
+                <h6>Referenced By</h6>
+                <ReferenceList references={references} node={savedQuery} />
+              </div>
+            </section>
+          ) : null}
+
+          {parentsLength ? (
+            <section className="section">
+              <div className="section-target" id="depends_on"></div>
+              <div className="section-content">
+                <h6>Depends On</h6>
+                <ReferenceList references={parents} node={savedQuery} />
+              </div>
+            </section>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export const revalidate = Infinity;
+
+export async function generateStaticParams() {
+  return await filterNodes("saved_query");
+}
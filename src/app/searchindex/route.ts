@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { get_owners, loadProject, project } from "../projectService";
+import { buildSearchIndex, searchDocument } from "@/util/searchIndex";
+
+export async function GET(request: Request) {
+  await loadProject();
+  return NextResponse.json(
+    buildSearchIndex(
+      project.searchable.map((node: any) =>
+        searchDocument(node, get_owners(node))
+      )
+    )
+  );
+}
+
+export const revalidate = Infinity;
@@ -11,6 +11,9 @@ import { SetActive } from "@/components/SetActive";
 import { filterNodes } from "@/util/filterNodes";
 import { generateSourceSQL } from "@/util/generateSourceSQL";
 import { MarkdownBlock } from "@/components/MarkdownBlock";
+import { DocBlockLinks } from "@/components/DocBlockLinks";
+import { ChangeBanner } from "@/components/ChangeBanner";
+import { ImpactAnalysis } from "@/components/ImpactAnalysis";
 
 export default async function SeedPage({
   params: { id },
@@ -46,6 +49,7 @@ export default async function SeedPage({
               <span className="break">{model.name}</span>
               <small>{model.config.materialized}</small>
             </h1>
+            <ChangeBanner node={model} />
           </div>
         </div>
         <div className="app-frame app-pad-h">
@@ -64,6 +68,11 @@ export default async function SeedPage({
                 <a href="#referenced_by">Referenced By</a>
               </li>
             ) : null}
+            {referencesLength ? (
+              <li>
+                <a href="#impact">Impact</a>
+              </li>
+            ) : null}
             {parentsLength ? (
               <li>
                 <a href="#depends_on">Depends On</a>
@@ -91,6 +100,7 @@ export default async function SeedPage({
                   {model.description ? (
                     <div className="model-markdown">
                       <MarkdownBlock markdown={model.description} />
+                      <DocBlockLinks ids={model.doc_blocks} />
                     </div>
                   ) : (
                     <div>
@@ -117,6 +127,15 @@ export default async function SeedPage({
               </div>
             </section>
           ) : null}
+          {referencesLength ? (
+            <section className="section">
+              <div className="section-target" id="impact"></div>
+              <div className="section-content">
+                <h6>Impact</h6>
+                <ImpactAnalysis node={model} />
+              </div>
+            </section>
+          ) : null}
 
           {parentsLength ? (
             <section className="section">
@@ -0,0 +1,270 @@
+import "server-only";
+
+import _ from "underscore";
+import Link from "next/link";
+import * as projectService from "@/app/projectService";
+import { TableDetails } from "@/components/TableDetails";
+import { ReferenceList } from "@/components/ReferenceList";
+import { SemanticTable } from "@/components/SemanticTable";
+import { getReferences, getParents } from "@/util/dagUtils";
+import { SetActive } from "@/components/SetActive";
+import { filterNodes } from "@/util/filterNodes";
+import { MarkdownBlock } from "@/components/MarkdownBlock";
+import { DocBlockLinks } from "@/components/DocBlockLinks";
+import { getNodeUrl } from "@/util/nodeUrl";
+import { getMeasureMetrics } from "@/util/semanticLayer";
+import { ChangeBanner } from "@/components/ChangeBanner";
+
+function Expression({ expr }: { expr?: string | null }) {
+  return expr ? <code>{expr}</code> : null;
+}
+
+export default async function SemanticModelPage({
+  params: { id },
+}: {
+  params: { id: string };
+}) {
+  await projectService.loadProject();
+  const semanticModel = projectService.project.nodes[id];
+  const parents = getParents(projectService.project, semanticModel);
+  const parentsLength = Object.keys(parents).length;
+  const references = getReferences(projectService.project, semanticModel);
+  const referencesLength = Object.keys(references).length;
+
+  const model = _.first(parents.model || []);
+  const entities = semanticModel.entities || [];
+  const dimensions = semanticModel.dimensions || [];
+  const measures = _.map(semanticModel.measures || [], (measure: any) => ({
+    ...measure,
+    metrics: getMeasureMetrics(projectService.project, measure.name),
+  }));
+
+  const extra_table_fields = [
+    {
+      name: "Model",
+      value: model ? (
+        <Link href={getNodeUrl(model)}>{model.name}</Link>
+      ) : undefined,
+    },
+    {
+      name: "Relation",
+      value: _.property(["node_relation", "relation_name"])(semanticModel),
+    },
+    {
+      name: "Primary entity",
+      value: semanticModel.primary_entity,
+    },
+    {
+      name: "Default time dimension",
+      value: _.property(["defaults", "agg_time_dimension"])(semanticModel),
+    },
+  ];
+
+  return (
+    <div className="app-scroll">
+      <SetActive uniqueId={id} />
+      <div className="app-links app-sticky">
+        <div className="app-title">
+          <div className="app-frame app-pad app-flush-bottom">
+            <h1>
+              <span className="break">{semanticModel.label}</span>
+              <small>semantic model</small>
+
+              <div className="clearfix"></div>
+            </h1>
+            <ChangeBanner node={semanticModel} />
+          </div>
+        </div>
+        <div className="app-frame app-pad-h">
+          <ul className="nav nav-tabs">
+            <li>
+              <a href="#details">Details</a>
+            </li>
+            <li>
+              <a href="#description">Description</a>
+            </li>
+            {entities.length ? (
+              <li>
+                <a href="#entities">Entities</a>
+              </li>
+            ) : null}
+            {dimensions.length ? (
+              <li>
+                <a href="#dimensions">Dimensions</a>
+              </li>
+            ) : null}
+            {measures.length ? (
+              <li>
+                <a href="#measures">Measures</a>
+              </li>
+            ) : null}
+            {referencesLength ? (
+              <li>
+                <a href="#referenced_by">Referenced By</a>
+              </li>
+            ) : null}
+            {parentsLength ? (
+              <li>
+                <a href="#depends_on">Depends On</a>
+              </li>
+            ) : null}
+          </ul>
+        </div>
+      </div>
+      <div className="app-details">
+        <div className="app-frame app-pad">
+          <section className="section">
+            <div className="section-target" id="details"></div>
+            <TableDetails model={semanticModel} extras={extra_table_fields} />
+          </section>
+
+          <section className="section">
+            <div className="section-target" id="description"></div>
+            <div className="section-content">
+              <h6>Description</h6>
+              <div className="panel">
+                <div className="panel-body">
+                  {semanticModel.description ? (
+                    <div className="model-markdown">
+                      <MarkdownBlock markdown={semanticModel.description} />
+                      <DocBlockLinks ids={semanticModel.doc_blocks} />
+                    </div>
+                  ) : (
+                    <div>This semantic model is not currently documented</div>
+                  )}
+                </div>
+              </div>
+            </div>
+          </section>
+
+          {entities.length ? (
+            <section className="section">
+              <div className="section-target" id="entities"></div>
+              <div className="section-content">
+                <h6>Entities</h6>
+                <SemanticTable
+                  rows={entities}
+                  columns={[
+                    { title: "Name", render: (entity) => entity.name },
+                    { title: "Type", render: (entity) => entity.type },
+                    {
+                      title: "Expression",
+                      render: (entity) => <Expression expr={entity.expr} />,
+                    },
+                    {
+                      title: "Description",
+                      render: (entity) => entity.description,
+                    },
+                  ]}
+                />
+              </div>
+            </section>
+          ) : null}
+
+          {dimensions.length ? (
+            <section className="section">
+              <div className="section-target" id="dimensions"></div>
+              <div className="section-content">
+                <h6>Dimensions</h6>
+                <SemanticTable
+                  rows={dimensions}
+                  columns={[
+                    { title: "Name", render: (dimension) => dimension.name },
+                    { title: "Type", render: (dimension) => dimension.type },
+                    {
+                      title: "Granularity",
+                      render: (dimension) =>
+                        _.property(["type_params", "time_granularity"])(
+                          dimension
+                        ),
+                    },
+                    {
+                      title: "Expression",
+                      render: (dimension) => (
+                        <Expression expr={dimension.expr} />
+                      ),
+                    },
+                    {
+                      title: "Description",
+                      render: (dimension) => dimension.description,
+                    },
+                  ]}
+                />
+              </div>
+            </section>
+          ) : null}
+
+          {measures.length ? (
+            <section className="section">
+              <div className="section-target" id="measures"></div>
+              <div className="section-content">
+                <h6>Measures</h6>
+                <SemanticTable
+                  rows={measures}
+                  rowId={(measure) => `measure-${measure.name}`}
+                  columns={[
+                    { title: "Name", render: (measure) => measure.name },
+                    {
+                      title: "Aggregation",
+                      render: (measure) => measure.agg,
+                    },
+                    {
+                      title: "Expression",
+                      render: (measure) => <Expression expr={measure.expr} />,
+                    },
+                    {
+                      title: "Time dimension",
+                      render: (measure) => measure.agg_time_dimension,
+                    },
+                    {
+                      title: "Metrics",
+                      render: (measure) =>
+                        measure.metrics.map((metric: any, index: number) => (
+                          <span key={metric.unique_id}>
+                            {index ? ", " : null}
+                            <Link href={getNodeUrl(metric)}>
+                              {metric.label}
+                            </Link>
+                          </span>
+                        )),
+                    },
+                    {
+                      title: "Description",
+                      render: (measure) => measure.description,
+                    },
+                  ]}
+                />
+              </div>
+            </section>
+          ) : null}
+
+          {referencesLength ? (
+            <section className="section">
+              <div className="section-target" id="referenced_by"></div>
+              <div className="section-content">
+                <h6>Referenced By</h6>
+                <ReferenceList references={references} node={semanticModel} />
+              </div>
+            </section>
+          ) : null}
+
+          {parentsLength ? (
+            <section className="section">
+              <div className="section-target" id="depends_on"></div>
+              <div className="section-content">
+                <h6>Depends On</h6>
+                <ReferenceList references={parents} node={semanticModel} />
+              </div>
+            </section>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export const revalidate = Infinity;
+
+export async function generateStaticParams() {
+  return await filterNodes("semantic_model");
+}
@@ -0,0 +1,116 @@
+import "server-only";
+
+import _ from "lodash";
+import Link from "next/link";
+import * as projectService from "@/app/projectService";
+import { TestStatusBadge } from "@/components/TestStatusBadge";
+import { getNodeUrl } from "@/util/nodeUrl";
+import { formatBytes, formatDuration, getSlowestNodes } from "@/util/runTiming";
+
+const reportLimit = 100;
+
+export default async function SlowestModelsPage() {
+  await projectService.loadProject();
+  const timed = getSlowestNodes(projectService.project.nodes);
+  const slowest = _.take(timed, reportLimit);
+  const total = _.sumBy(timed, (node) => node.run_result.execution_time);
+
+  return (
+    <div className="app-scroll">
+      <div className="app-links app-sticky">
+        <div className="app-title">
+          <div className="app-frame app-pad app-flush-bottom">
+            <h1>
+              <span className="break">Slowest models</span>
+              <small>run_results.json</small>
+            </h1>
+          </div>
+        </div>
+      </div>
+      <div className="app-details">
+        <div className="app-frame app-pad">
+          <section className="section">
+            <div className="section-content">
+              <div className="panel">
+                <div className="panel-body">
+                  {timed.length ? (
+                    <>
+                      <p>
+                        {timed.length} models, seeds and snapshots took{" "}
+                        {formatDuration(total)} in total.
+                        {timed.length > reportLimit
+                          ? ` Showing the ${reportLimit} slowest.`
+                          : null}
+                      </p>
+                      <div className="table-responsive">
+                        <table className="table table-borderless table-hover">
+                          <thead>
+                            <tr>
+                              <th>Name</th>
+                              <th>Materialization</th>
+                              <th>Status</th>
+                              <th className="text-right">Execution time</th>
+                              <th className="text-right">Share</th>
+                              <th className="text-right">Rows affected</th>
+                              <th className="text-right">Bytes processed</th>
+                              <th>Completed</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {slowest.map((node) => (
+                              <tr key={node.unique_id}>
+                                <td>
+                                  <Link href={getNodeUrl(node)}>
+                                    {node.label || node.name}
+                                  </Link>
+                                </td>
+                                <td>
+                                  {_.get(node, ["config", "materialized"])}
+                                </td>
+                                <td>
+                                  <TestStatusBadge
+                                    status={node.run_result.status}
+                                  />
+                                </td>
+                                <td className="text-right">
+                                  {formatDuration(
+                                    node.run_result.execution_time
+                                  )}
+                                </td>
+                                <td className="text-right">
+                                  {total
+                                    ? `${(
+                                        (node.run_result.execution_time /
+                                          total) *
+                                        100
+                                      ).toFixed(1)}%`
+                                    : null}
+                                </td>
+                                <td className="text-right">
+                                  {node.run_result.rows_affected}
+                                </td>
+                                <td className="text-right">
+                                  {formatBytes(node.run_result.bytes_processed)}
+                                </td>
+                                <td>{node.run_result.completed_at}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </>
+                  ) : (
+                    <div>
+                      No run timings are available. Add the run_results.json of
+                      a `dbt run` or `dbt build` next to the manifest.
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
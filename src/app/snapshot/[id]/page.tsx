@@ -10,6 +10,8 @@ import { getReferences, getParents } from "@/util/dagUtils";
 import { SetActive } from "@/components/SetActive";
 import { filterNodes } from "@/util/filterNodes";
 import { MarkdownBlock } from "@/components/MarkdownBlock";
+import { DocBlockLinks } from "@/components/DocBlockLinks";
+import { ChangeBanner, getNodeChange } from "@/components/ChangeBanner";
 
 export default async function SnapshotPage({
   params: { id },
@@ -46,6 +48,7 @@ export default async function SnapshotPage({
               <span className="break">{model.name}</span>
               <small>{model.config.materialized}</small>
             </h1>
+            <ChangeBanner node={model} />
           </div>
         </div>
         <div className="app-frame app-pad-h">
@@ -91,6 +94,7 @@ export default async function SnapshotPage({
                   {model.description ? (
                     <div className="model-markdown">
                       <MarkdownBlock markdown={model.description} />
+                      <DocBlockLinks ids={model.doc_blocks} />
                     </div>
                   ) : (
                     <div>
@@ -136,6 +140,7 @@ export default async function SnapshotPage({
                 versions={versions}
                 defaultVersion={"Source"}
                 language={"sql"}
+                baseline={getNodeChange(model)?.baseline_code}
               />
             </div>
           </section>
@@ -10,7 +10,12 @@ import { SetActive } from "@/components/SetActive";
 import { filterNodes } from "@/util/filterNodes";
 import { generateSourceSQL } from "@/util/generateSourceSQL";
 import { MarkdownBlock } from "@/components/MarkdownBlock";
+import { DocBlockLinks } from "@/components/DocBlockLinks";
 import { GenerateDAG } from "@/components/GenerateDAG";
+import { TestStatusBadge } from "@/components/TestStatusBadge";
+import { describeFreshnessCriteria, formatAge } from "@/util/freshness";
+import { ChangeBanner } from "@/components/ChangeBanner";
+import { ImpactAnalysis } from "@/components/ImpactAnalysis";
 
 export default async function SourcePage({
   params: { id },
@@ -25,6 +30,7 @@ export default async function SourcePage({
   const versions = {
     "Sample SQL": generateSourceSQL(model),
   };
+  const freshness = model.freshness_result;
 
   const extra_table_fields = [
     {
@@ -35,6 +41,27 @@ export default async function SourcePage({
       name: "Source",
       value: model.source_name,
     },
+    {
+      name: "Freshness",
+      value: freshness ? (
+        <TestStatusBadge status={freshness.status} title={freshness.error}>
+          {freshness.status}
+          {freshness.age != null ? ` (${formatAge(freshness.age)} old)` : ""}
+        </TestStatusBadge>
+      ) : undefined,
+    },
+    {
+      name: "Max loaded at",
+      value: freshness?.max_loaded_at,
+    },
+    {
+      name: "Snapshotted at",
+      value: freshness?.snapshotted_at,
+    },
+    {
+      name: "Freshness criteria",
+      value: describeFreshnessCriteria(freshness?.criteria || model.freshness),
+    },
   ];
 
   return (
@@ -49,6 +76,7 @@ export default async function SourcePage({
               </span>
               <small>source table</small>
             </h1>
+            <ChangeBanner node={model} />
           </div>
         </div>
         <div className="app-frame app-pad-h">
@@ -68,6 +96,11 @@ export default async function SourcePage({
                 <a href="#referenced_by">Referenced By</a>
               </li>
             ) : null}
+            {referencesLength ? (
+              <li>
+                <a href="#impact">Impact</a>
+              </li>
+            ) : null}
             <li>
               <a href="#code">SQL</a>
             </li>
@@ -81,7 +114,7 @@ export default async function SourcePage({
         <div className="app-frame app-pad">
           <section className="section">
             <div className="section-target" id="details"></div>
-            <TableDetails model={model} extras={extra_table_fields} />           
+            <TableDetails model={model} extras={extra_table_fields} />
           </section>
 
           <section className="section">
@@ -93,6 +126,7 @@ export default async function SourcePage({
                   {model.description ? (
                     <div className="model-markdown">
                       <MarkdownBlock markdown={model.description} />
+                      <DocBlockLinks ids={model.doc_blocks} />
                     </div>
                   ) : (
                     <div>
@@ -119,6 +153,15 @@ export default async function SourcePage({
               </div>
             </section>
           ) : null}
+          {referencesLength ? (
+            <section className="section">
+              <div className="section-target" id="impact"></div>
+              <div className="section-content">
+                <h6>Impact</h6>
+                <ImpactAnalysis node={model} />
+              </div>
+            </section>
+          ) : null}
 
           <section className="section">
             <div className="section-target" id="code"></div>
@@ -138,7 +181,6 @@ export default async function SourcePage({
               <GenerateDAG model={model} />
             </div>
           </section>
-
         </div>
       </div>
     </div>
@@ -3,10 +3,13 @@
 import { MarkdownBlock } from "@/components/MarkdownBlock";
 import Link from "next/link";
 import React from "react";
+import { TestStatusBadge } from "@/components/TestStatusBadge";
+import { formatAge } from "@/util/freshness";
 
 export function SourceRow({ source }: { source: any }) {
   const [expanded, setExpanded] = React.useState(false);
   const hasMoreInfo = source.description.length;
+  const freshness = source.freshness_result;
   return (
     <>
       <tr
@@ -37,10 +40,24 @@ export function SourceRow({ source }: { source: any }) {
         <td>
           <Link href={`/source/${source.unique_id}/`}>View docs</Link>
         </td>
+        <td>
+          {freshness ? (
+            <TestStatusBadge
+              status={freshness.status}
+              title={
+                freshness.error ||
+                `max loaded at ${freshness.max_loaded_at}, snapshotted at ${freshness.snapshotted_at}`
+              }
+            >
+              {freshness.status}
+              {freshness.age != null ? ` ${formatAge(freshness.age)}` : ""}
+            </TestStatusBadge>
+          ) : null}
+        </td>
         <td className="text-center">
           {hasMoreInfo ? (
             <span className="text-light">
-              {source.expanded ? (
+              {expanded ? (
                 <span>
                   <svg className="icn">
                     <use xlinkHref="#icn-up"></use>
@@ -57,9 +74,9 @@ export function SourceRow({ source }: { source: any }) {
           ) : null}
         </td>
       </tr>
-      {source.expanded ? (
+      {expanded ? (
         <tr style={{ backgroundColor: "white", padding: "10px" }}>
-          <td colSpan={5} className="column-expanded">
+          <td colSpan={6} className="column-expanded">
             <div style={{ padding: "5px 20px" }}>
               <div style={{ marginBottom: "15px" }}>
                 <h5>Description</h5>
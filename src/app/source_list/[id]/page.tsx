@@ -5,6 +5,8 @@ import { loadProject, project } from "@/app/projectService";
 import _ from "underscore";
 import * as projectService from "@/app/projectService";
 import { getShortID } from "@/util/nodeUrl";
+import { TestStatusBadge, statusSeverity } from "@/components/TestStatusBadge";
+import { formatAge } from "@/util/freshness";
 
 export default async function SourceListPage({
   params: { id },
@@ -52,6 +54,10 @@ export default async function SourceListPage({
       name: "Tables",
       value: sources.length,
     },
+    {
+      name: "Freshness",
+      value: freshnessSummary(sources),
+    },
   ];
   return (
     <>
@@ -174,6 +180,16 @@ export default async function SourceListPage({
                               >
                                 Link
                               </th>
+                              <th
+                                style={{
+                                  backgroundColor: "white",
+                                  position: "sticky",
+                                  top: 0,
+                                  zIndex: 1,
+                                }}
+                              >
+                                Freshness
+                              </th>
                               <th
                                 style={{
                                   width: "1px",
@@ -207,6 +223,41 @@ export default async function SourceListPage({
   );
 }
 
+// Number of tables per freshness status, worst first, and the oldest load
+function freshnessSummary(sources: any[]) {
+  const checked = _.filter(sources, (source) => source.freshness_result);
+  if (!checked.length) {
+    return undefined;
+  }
+  const byStatus = _.groupBy(
+    checked,
+    (source: any) => source.freshness_result.status
+  );
+  const oldest: any = _.last(
+    _.sortBy(checked, (source: any) => source.freshness_result.age ?? -1)
+  );
+  return (
+    <span>
+      {_.sortBy(_.keys(byStatus), (status) =>
+        statusSeverity.indexOf(status)
+      ).map((status) => (
+        <TestStatusBadge
+          key={status}
+          status={status}
+          title={_.pluck(byStatus[status], "name").join("\n")}
+        >
+          {byStatus[status].length} {status}
+        </TestStatusBadge>
+      ))}
+      {oldest.freshness_result.age != null
+        ? ` oldest load ${formatAge(oldest.freshness_result.age)} ago (${
+            oldest.name
+          })`
+        : null}
+    </span>
+  );
+}
+
 export async function generateStaticParams() {
   await projectService.loadProject();
   const nodes = projectService.project.nodes;
@@ -10,6 +10,8 @@ import { getReferences, getParents } from "@/util/dagUtils";
 import { SetActive } from "@/components/SetActive";
 import { filterNodes } from "@/util/filterNodes";
 import { MarkdownBlock } from "@/components/MarkdownBlock";
+import { DocBlockLinks } from "@/components/DocBlockLinks";
+import { TestStatusBadge } from "@/components/TestStatusBadge";
 
 export default async function Test({
   params: { id },
@@ -26,6 +28,24 @@ export default async function Test({
     Source: model.raw_code || "",
     Compiled: model.compiled_code || default_compiled,
   };
+  const result = model.run_result;
+  const resultDetails = result
+    ? [
+        {
+          name: "Status",
+          value: <TestStatusBadge status={result.status} />,
+        },
+        { name: "Failures", value: result.failures },
+        {
+          name: "Execution time",
+          value:
+            result.execution_time != null
+              ? `${result.execution_time.toFixed(2)}s`
+              : null,
+        },
+        { name: "Completed", value: result.completed_at },
+      ].filter((detail) => detail.value != null)
+    : [];
 
   return (
     <div className="app-scroll">
@@ -41,6 +61,11 @@ export default async function Test({
         </div>
         <div className="app-frame app-pad-h">
           <ul className="nav nav-tabs">
+            {result ? (
+              <li>
+                <a href="#result">Result</a>
+              </li>
+            ) : null}
             <li>
               <a href="#description">Description</a>
             </li>
@@ -57,6 +82,33 @@ export default async function Test({
       </div>
       <div className="app-details">
         <div className="app-frame app-pad">
+          {result ? (
+            <section className="section">
+              <div className="section-target" id="result"></div>
+              <div className="section-content">
+                <h6>Last Result</h6>
+                <div className="panel">
+                  <div className="panel-body">
+                    <div className="details">
+                      <div className="details-content">
+                        <div className="detail-group">
+                          <div className="detail-body">
+                            {resultDetails.map((detail) => (
+                              <dl className="detail" key={detail.name}>
+                                <dt className="detail-label">{detail.name}</dt>
+                                <dd className="detail-value">{detail.value}</dd>
+                              </dl>
+                            ))}
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                    {result.message ? <pre>{result.message}</pre> : null}
+                  </div>
+                </div>
+              </div>
+            </section>
+          ) : null}
           <section className="section">
             <div className="section-target" id="description"></div>
             <div className="section-content">
@@ -66,6 +118,7 @@ export default async function Test({
                   {model.description ? (
                     <div className="model-markdown">
                       <MarkdownBlock markdown={model.description} />
+                      <DocBlockLinks ids={model.doc_blocks} />
                     </div>
                   ) : (
                     <div>
@@ -92,7 +145,7 @@ export default async function Test({
               <CodeBlock
                 versions={versions}
                 defaultVersion={"Source"}
-                language={"python"}
+                language={model.language}
               />
             </div>
           </section>
@@ -0,0 +1,74 @@
+import "server-only";
+
+import _ from "lodash";
+import * as projectService from "@/app/projectService";
+import {
+  TestCoverageClient,
+  TestCoverageRow,
+} from "@/components/TestCoverageClient";
+import { getNodeUrl } from "@/util/nodeUrl";
+import {
+  getModelTestCoverage,
+  getModelTests,
+  testedResourceTypes,
+} from "@/util/testCoverage";
+
+export default async function TestCoveragePage() {
+  await projectService.loadProject();
+  const project = projectService.project;
+
+  const models = _.sortBy(
+    _.filter(
+      _.values(project.nodes),
+      (node) =>
+        _.includes(testedResourceTypes, node.resource_type) &&
+        _.get(node, ["docs", "show"], true)
+    ),
+    "unique_id"
+  );
+  const rows: TestCoverageRow[] = _.map(models, (model) => {
+    const coverage = getModelTestCoverage(model, getModelTests(project, model));
+    return {
+      unique_id: model.unique_id,
+      name: model.label || model.name,
+      url: getNodeUrl(model),
+      package_name: model.package_name,
+      resource_type: model.resource_type,
+      primary_key: coverage.primary_key,
+      columns: _.map(coverage.columns, (column) =>
+        _.pick(column, ["name", "types"])
+      ),
+      singular_tests: _.map(coverage.singular_tests, (test) => ({
+        name: test.name,
+        url: getNodeUrl(test),
+      })),
+    };
+  });
+  const withoutKey = _.filter(rows, (row) => !row.primary_key).length;
+
+  return (
+    <div className="app-scroll">
+      <div className="app-links app-sticky">
+        <div className="app-title">
+          <div className="app-frame app-pad app-flush-bottom">
+            <h1>
+              <span className="break">Test coverage</span>
+              <small>
+                {withoutKey} of {rows.length} without a primary key test
+              </small>
+            </h1>
+          </div>
+        </div>
+      </div>
+      <div className="app-details">
+        <div className="app-frame app-pad">
+          <section className="section">
+            <div className="section-content">
+              <TestCoverageClient rows={rows} />
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,32 @@
-import { getModelTree, loadProject } from "@/app/projectService";
+import { getModelTree, loadProject, project } from "@/app/projectService";
 import { NextResponse } from "next/server";
 import _ from "underscore";
 
+// The project switcher needs to know which project each file belongs to and
+// which models other projects are allowed to see.
+function annotateProjects(items: any[]) {
+  _.each(items, function (item: any) {
+    if (item.unique_id) {
+      const node =
+        project.nodes[item.unique_id] || project.macros[item.unique_id];
+      item.project_name = node ? node.project_name : undefined;
+      item.access = node ? node.access : undefined;
+    }
+    annotateProjects(item.items);
+  });
+}
+
 export async function GET() {
   await loadProject();
-  const fullTree = await new Promise((res) => {
+  const tree: any = await new Promise((res) => {
     getModelTree(null, res);
   });
-
-  // Omit groups data because its huge and also its busted in the original DBT Docs code
-  const tree: any = _.omit(fullTree, "groups");
   tree.database = Object.values(tree.database);
+  tree.has_baseline = !!project.changes;
+  if (project.projects.length > 1) {
+    _.each(_.values(tree), annotateProjects);
+    tree.projects = _.pluck(project.projects, "name");
+  }
   return NextResponse.json(tree);
 }
 
@@ -0,0 +1,30 @@
+import "server-only";
+
+import React from "react";
+import Link from "next/link";
+import _ from "lodash";
+import * as projectService from "@/app/projectService";
+import { NodeChange, describeChange } from "@/util/artifactDiff";
+
+export function getNodeChange(node: any): NodeChange | undefined {
+  const changes = projectService.project.changes;
+  return changes
+    ? _.find(changes.nodes, { unique_id: node.unique_id })
+    : undefined;
+}
+
+// Shown on node pages when the site is built with a baseline to compare with
+export function ChangeBanner({ node }: { node: any }) {
+  const change = getNodeChange(node);
+  if (!change) {
+    return null;
+  }
+  return (
+    <div className="alert alert-info">
+      {change.status == "added"
+        ? "Added since the baseline."
+        : `Changed since the baseline: ${describeChange(change)}.`}{" "}
+      <Link href={`/changes/#${change.unique_id}`}>See all changes</Link>
+    </div>
+  );
+}
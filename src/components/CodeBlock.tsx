@@ -3,18 +3,30 @@
 import React from "react";
 import SyntaxHighlighter from "react-syntax-highlighter";
 import { copyToClipboard } from "@/util/copyToClipboard";
+import { CodeDiff } from "./CodeDiff";
 
+const diffVersion = "Changes";
+
+// `baseline` is the code of the default version in the baseline artifacts,
+// when it changed since then a side-by-side diff is offered as well
 export const CodeBlock = ({
   versions,
   defaultVersion,
   language,
+  baseline,
 }: {
   versions: Record<string, any>;
   defaultVersion: any;
   language: string;
+  baseline?: string;
 }) => {
   const [selectedVersion, setSelectedVersion] = React.useState(defaultVersion);
-  const source = versions[selectedVersion] || "";
+  const showDiff = selectedVersion == diffVersion && baseline != null;
+  const source =
+    (showDiff ? versions[defaultVersion] : versions[selectedVersion]) || "";
+  const tabs = Object.keys(versions).concat(
+    baseline != null ? [diffVersion] : []
+  );
 
   function titleCase(name: string) {
     return name.charAt(0).toUpperCase() + name.substring(1);
@@ -35,7 +47,7 @@ export const CodeBlock = ({
       <div className="panel">
         <div className="panel-body">
           <ul className="nav nav-tabs">
-            {Object.keys(versions).map((version_name: any) => (
+            {tabs.map((version_name: any) => (
               <li
                 className={
                   version_name == selectedVersion ? "active" : undefined
@@ -59,13 +71,17 @@ export const CodeBlock = ({
             </li>
           </ul>
           <div style={{ marginTop: "1px" }}>
-            <SyntaxHighlighter
-              language={language}
-              className="code line-numbers"
-              customStyle={{ background: "white" }}
-            >
-              {source.trim()}
-            </SyntaxHighlighter>
+            {showDiff ? (
+              <CodeDiff before={baseline || ""} after={source} />
+            ) : (
+              <SyntaxHighlighter
+                language={language}
+                className="code line-numbers"
+                customStyle={{ background: "white" }}
+              >
+                {source.trim()}
+              </SyntaxHighlighter>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,132 @@
+import React from "react";
+import { diffLines } from "diff";
+
+type DiffRow = {
+  before?: { line: number; text: string; removed: boolean };
+  after?: { line: number; text: string; added: boolean };
+};
+
+const removedBackground = "#fdf3f2";
+const addedBackground = "#f3faec";
+
+function splitLines(text: string) {
+  const lines = text.split("\n");
+  return lines[lines.length - 1] == "" ? lines.slice(0, -1) : lines;
+}
+
+// Lines removed and added in one place are shown next to each other
+function buildRows(before: string, after: string) {
+  const rows: DiffRow[] = [];
+  let left = 1;
+  let right = 1;
+  let removed: string[] = [];
+
+  const flushRemoved = (added: string[]) => {
+    const count = Math.max(removed.length, added.length);
+    for (let i = 0; i < count; i++) {
+      rows.push({
+        before:
+          i < removed.length
+            ? { line: left++, text: removed[i], removed: true }
+            : undefined,
+        after:
+          i < added.length
+            ? { line: right++, text: added[i], added: true }
+            : undefined,
+      });
+    }
+    removed = [];
+  };
+
+  diffLines(before, after).forEach((part) => {
+    const lines = splitLines(part.value);
+    if (part.removed) {
+      removed = removed.concat(lines);
+    } else if (part.added) {
+      flushRemoved(lines);
+    } else {
+      flushRemoved([]);
+      lines.forEach((text) => {
+        rows.push({
+          before: { line: left++, text: text, removed: false },
+          after: { line: right++, text: text, added: false },
+        });
+      });
+    }
+  });
+  flushRemoved([]);
+  return rows;
+}
+
+const cellStyle: React.CSSProperties = {
+  fontFamily: "monospace",
+  whiteSpace: "pre-wrap",
+  verticalAlign: "top",
+  width: "50%",
+};
+
+const lineStyle: React.CSSProperties = {
+  fontFamily: "monospace",
+  verticalAlign: "top",
+  textAlign: "right",
+  userSelect: "none",
+  width: "1px",
+};
+
+// Side-by-side line diff of the baseline and the current code
+export const CodeDiff = ({
+  before,
+  after,
+}: {
+  before: string;
+  after: string;
+}) => {
+  const rows = React.useMemo(
+    () => buildRows(before.trim() + "\n", after.trim() + "\n"),
+    [before, after]
+  );
+  return (
+    <div className="table-responsive">
+      <table className="table table-borderless">
+        <thead>
+          <tr>
+            <th colSpan={2}>Baseline</th>
+            <th colSpan={2}>Current</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={index}>
+              <td className="text-light" style={lineStyle}>
+                {row.before ? row.before.line : null}
+              </td>
+              <td
+                style={{
+                  ...cellStyle,
+                  backgroundColor:
+                    row.before && row.before.removed
+                      ? removedBackground
+                      : undefined,
+                }}
+              >
+                {row.before ? row.before.text : null}
+              </td>
+              <td className="text-light" style={lineStyle}>
+                {row.after ? row.after.line : null}
+              </td>
+              <td
+                style={{
+                  ...cellStyle,
+                  backgroundColor:
+                    row.after && row.after.added ? addedBackground : undefined,
+                }}
+              >
+                {row.after ? row.after.text : null}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
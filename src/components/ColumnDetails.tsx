@@ -1,6 +1,7 @@
-"use client";
 import React from "react";
 import _ from "underscore";
+import * as projectService from "@/app/projectService";
+import { getColumnLineage } from "@/util/columnLineage";
 import { ColumnDetailsClient } from "./ColumnDetailsClient";
 
 export const ColumnDetails = ({ model }: { model: any }) => {
@@ -13,6 +14,16 @@ export const ColumnDetails = ({ model }: { model: any }) => {
         "resource_type",
         "description",
       ])}
+      lineage={
+        model.unique_id
+          ? getColumnLineage(projectService.project, model)
+          : undefined
+      }
+      // column types come from the catalog, or from the model's contract
+      showTypes={
+        !projectService.project.catalog_missing ||
+        _.some(_.values(model.columns), "data_type")
+      }
     />
   );
 };
@@ -1,9 +1,33 @@
 "use client";
 import React from "react";
 import _ from "underscore";
+import Link from "next/link";
 import { MarkdownBlock } from "./MarkdownBlock";
+import { DocBlockLinks } from "./DocBlockLinks";
+import { getNodeUrl } from "@/util/nodeUrl";
+import {
+  TestStatusBadge,
+  describeResult,
+  worstStatus,
+} from "./TestStatusBadge";
 
-export const ColumnDetailsClient = ({ model }: { model: any }) => {
+const testTypes = [
+  ["U", "Unique"],
+  ["N", "Not Null"],
+  ["F", "Foreign Key"],
+  ["A", "Accepted Values"],
+  ["+", "Custom Test"],
+];
+
+export const ColumnDetailsClient = ({
+  model,
+  lineage = {},
+  showTypes = true,
+}: {
+  model: any;
+  lineage?: Record<string, any>;
+  showTypes?: boolean;
+}) => {
   function get_columns(model: any) {
     var columns = _.chain(model.columns).values().sortBy("index").value();
 
@@ -39,16 +63,18 @@ export const ColumnDetailsClient = ({ model }: { model: any }) => {
                   >
                     Column
                   </th>
-                  <th
-                    style={{
-                      backgroundColor: "white",
-                      position: "sticky",
-                      top: 0,
-                      zIndex: 1,
-                    }}
-                  >
-                    Type
-                  </th>
+                  {showTypes ? (
+                    <th
+                      style={{
+                        backgroundColor: "white",
+                        position: "sticky",
+                        top: 0,
+                        zIndex: 1,
+                      }}
+                    >
+                      Type
+                    </th>
+                  ) : null}
                   <th
                     style={{
                       backgroundColor: "white",
@@ -86,7 +112,12 @@ export const ColumnDetailsClient = ({ model }: { model: any }) => {
               </thead>
               <tbody>
                 {get_columns(model).map((column: any, index: number) => (
-                  <ColumnRow column={column} key={index} />
+                  <ColumnRow
+                    column={column}
+                    lineage={lineage[(column.name || "").toLowerCase()]}
+                    showTypes={showTypes}
+                    key={index}
+                  />
                 ))}
               </tbody>
             </table>
@@ -97,18 +128,31 @@ export const ColumnDetailsClient = ({ model }: { model: any }) => {
   );
 };
 
-function ColumnRow({ column }: { column: any }) {
+function ColumnRow({
+  column,
+  lineage,
+  showTypes,
+}: {
+  column: any;
+  lineage?: any;
+  showTypes: boolean;
+}) {
   const [expanded, setExpanded] = React.useState(false);
   function has_test(col: any, test_name: any) {
     var test_types = _.pluck(col.tests, "short");
     return test_types.indexOf(test_name) != -1;
   }
+  function test_results(col: any, test_name: any) {
+    return _.pluck(_.where(col.tests, { short: test_name }), "result");
+  }
   function has_more_info(column: any) {
     var tests = column.tests || [];
     var description = column.description || "";
     var meta = column.meta || {};
 
-    return tests.length || description.length || Object.keys(meta).length;
+    return (
+      tests.length || description.length || Object.keys(meta).length || lineage
+    );
   }
   return (
     <>
@@ -126,9 +170,17 @@ function ColumnRow({ column }: { column: any }) {
             <span className="text-dark">{column.display_name}</span>
           </div>
         </td>
-        <td>
-          <span className="text-dark">{column.type}</span>
-        </td>
+        {showTypes ? (
+          <td>
+            {column.type ? (
+              <span className="text-dark">{column.type}</span>
+            ) : (
+              <span className="text-dark" title="Declared type">
+                {column.data_type}
+              </span>
+            )}
+          </td>
+        ) : null}
         <td
           style={{
             textOverflow: "ellipsis",
@@ -142,31 +194,17 @@ function ColumnRow({ column }: { column: any }) {
         <td>
           {!expanded ? (
             <span className="text-light">
-              {has_test(column, "U") ? (
-                <span data-toggle="tooltip" title="Unique">
-                  U
-                </span>
-              ) : null}
-              {has_test(column, "N") ? (
-                <span data-toggle="tooltip" title="Not Null">
-                  N
-                </span>
-              ) : null}
-              {has_test(column, "F") ? (
-                <span data-toggle="tooltip" title="Foreign Key">
-                  F
-                </span>
-              ) : null}
-              {has_test(column, "A") ? (
-                <span data-toggle="tooltip" title="Accepted Values">
-                  A
-                </span>
-              ) : null}
-              {has_test(column, "+") ? (
-                <span data-toggle="tooltip" title="Custom Test">
-                  +
-                </span>
-              ) : null}
+              {testTypes.map(([short, label]) =>
+                has_test(column, short) ? (
+                  <TestStatusBadge
+                    key={short}
+                    status={worstStatus(test_results(column, short))}
+                    title={label}
+                  >
+                    {short}
+                  </TestStatusBadge>
+                ) : null
+              )}
             </span>
           ) : null}
         </td>
@@ -192,7 +230,7 @@ function ColumnRow({ column }: { column: any }) {
       </tr>
       {expanded ? (
         <tr style={{ backgroundColor: "white", padding: "10px" }}>
-          <td colSpan={5} className="column-expanded">
+          <td colSpan={showTypes ? 5 : 4} className="column-expanded">
             <div style={{ padding: "5px 20px" }}>
               {_.size(column.meta) > 0 ? (
                 <div>
@@ -221,6 +259,19 @@ function ColumnRow({ column }: { column: any }) {
                   <span>
                     <MarkdownBlock markdown={column.description} />
                   </span>
+                  <DocBlockLinks ids={column.doc_blocks} />
+                </div>
+              ) : null}
+              {lineage ? (
+                <div style={{ marginBottom: "15px" }}>
+                  <ColumnLineageList
+                    title="Upstream columns"
+                    columns={lineage.upstream}
+                  />
+                  <ColumnLineageList
+                    title="Downstream columns"
+                    columns={lineage.downstream}
+                  />
                 </div>
               ) : null}
               {column.tests && column.tests.length ? (
@@ -229,6 +280,19 @@ function ColumnRow({ column }: { column: any }) {
                   <ul className="list-unstyled" style={{ marginTop: "2px" }}>
                     {column.tests?.map((test: any, index: number) => (
                       <li key={index} className="text-light">
+                        {test.result ? (
+                          <Link
+                            href={getNodeUrl({
+                              resource_type: "test",
+                              unique_id: test.unique_id,
+                            })}
+                          >
+                            <TestStatusBadge
+                              status={test.result.status}
+                              title={describeResult(test.result)}
+                            />
+                          </Link>
+                        ) : null}{" "}
                         {(() => {
                           switch (test.short) {
                             case "F": {
@@ -275,3 +339,25 @@ function ColumnRow({ column }: { column: any }) {
     </>
   );
 }
+
+function ColumnLineageList({
+  title,
+  columns,
+}: {
+  title: string;
+  columns: any[];
+}) {
+  return columns.length ? (
+    <>
+      <h5>{title}</h5>
+      <ul className="list-unstyled" style={{ marginTop: "2px" }}>
+        {columns.map((ref: any, index: number) => (
+          <li key={index}>
+            <Link href={getNodeUrl(ref)}>{ref.name}</Link>.
+            <code>{ref.column}</code>
+          </li>
+        ))}
+      </ul>
+    </>
+  ) : null;
+}
@@ -0,0 +1,159 @@
+import React from "react";
+import Link from "next/link";
+import _ from "lodash";
+import { Contract, ContractConstraint } from "@/util/contracts";
+import { getNodeUrl } from "@/util/nodeUrl";
+import { TestStatusBadge } from "./TestStatusBadge";
+
+const mismatchBackground = "#fdf3f2";
+
+function ConstraintLine({
+  constraint,
+  showColumns,
+}: {
+  constraint: ContractConstraint;
+  showColumns: boolean;
+}) {
+  return (
+    <div>
+      <code>{constraint.type}</code>
+      {showColumns && constraint.columns.length ? (
+        <span> ({constraint.columns.join(", ")})</span>
+      ) : null}
+      {constraint.name ? (
+        <small className="text-light"> {constraint.name}</small>
+      ) : null}
+      {constraint.type == "foreign_key" ? (
+        <span>
+          {" "}
+          &rarr;{" "}
+          {constraint.to ? (
+            <Link href={getNodeUrl(constraint.to)}>{constraint.to.label}</Link>
+          ) : (
+            <span className="text-light">unknown relation</span>
+          )}
+          {constraint.to_columns.length
+            ? ` (${constraint.to_columns.join(", ")})`
+            : null}
+        </span>
+      ) : null}
+      {constraint.expression &&
+      !(constraint.type == "foreign_key" && constraint.to) ? (
+        <div>
+          <code>{constraint.expression}</code>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+// Declared and catalog column types of a model with a contract, and the
+// constraints on its columns and on the model itself
+export function ContractDetails({
+  contract,
+  showTypes,
+}: {
+  contract: Contract;
+  showTypes: boolean;
+}) {
+  const mismatches = _.filter(contract.columns, "mismatch");
+
+  return (
+    <div className="panel">
+      <div className="panel-body">
+        <p>
+          {contract.enforced ? (
+            <TestStatusBadge status="pass">enforced</TestStatusBadge>
+          ) : (
+            <TestStatusBadge status="skipped">not enforced</TestStatusBadge>
+          )}{" "}
+          {contract.enforced
+            ? "dbt checks the declared column names and types when building this model."
+            : "Declared types and constraints are not checked by dbt unless the contract is enforced."}
+          {mismatches.length ? (
+            <strong className="text-danger">
+              {" "}
+              {mismatches.length} column
+              {mismatches.length == 1 ? " differs" : "s differ"} from the
+              catalog.
+            </strong>
+          ) : null}
+        </p>
+        {contract.columns.length ? (
+          <div className="table-responsive">
+            <table className="table table-borderless table-hover">
+              <thead>
+                <tr>
+                  <th>Column</th>
+                  <th>Declared type</th>
+                  {showTypes ? <th>Catalog type</th> : null}
+                  <th>Constraints</th>
+                </tr>
+              </thead>
+              <tbody>
+                {contract.columns.map((column) => (
+                  <tr
+                    key={column.name}
+                    style={
+                      column.mismatch
+                        ? { backgroundColor: mismatchBackground }
+                        : undefined
+                    }
+                  >
+                    <td>
+                      <span className="text-dark">{column.name}</span>
+                    </td>
+                    <td>
+                      {column.declared_type ? (
+                        <code>{column.declared_type}</code>
+                      ) : (
+                        <span className="text-light">-</span>
+                      )}
+                    </td>
+                    {showTypes ? (
+                      <td>
+                        {column.actual_type ? (
+                          <code>{column.actual_type}</code>
+                        ) : (
+                          <span className="text-light">missing</span>
+                        )}{" "}
+                        {column.mismatch ? (
+                          <TestStatusBadge status="fail">
+                            mismatch
+                          </TestStatusBadge>
+                        ) : null}
+                      </td>
+                    ) : null}
+                    <td>
+                      {column.constraints.map((constraint, index) => (
+                        <ConstraintLine
+                          key={index}
+                          constraint={constraint}
+                          showColumns={false}
+                        />
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+        {contract.constraints.length ? (
+          <>
+            <p>
+              <strong>Model constraints</strong>
+            </p>
+            {contract.constraints.map((constraint, index) => (
+              <ConstraintLine
+                key={index}
+                constraint={constraint}
+                showColumns={true}
+              />
+            ))}
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
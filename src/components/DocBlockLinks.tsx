@@ -0,0 +1,20 @@
+import React from "react";
+import Link from "next/link";
+
+// "Documented in" links from a description to the doc blocks it came from
+export function DocBlockLinks({ ids }: { ids?: string[] }) {
+  if (!ids || !ids.length) {
+    return null;
+  }
+  return (
+    <small className="text-light">
+      Documented in{" "}
+      {ids.map((id, index) => (
+        <span key={id}>
+          {index ? ", " : null}
+          <Link href={`/doc/${id}/`}>{id.replace(/^doc\./, "")}</Link>
+        </span>
+      ))}
+    </small>
+  );
+}
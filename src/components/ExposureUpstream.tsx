@@ -0,0 +1,94 @@
+import React from "react";
+import Link from "next/link";
+import _ from "lodash";
+import { UpstreamEntry } from "@/util/exposures";
+import { getNodeUrl } from "@/util/nodeUrl";
+import { TestStatusBadge, worstStatus } from "./TestStatusBadge";
+
+const problemBackground = "#fdf3f2";
+
+export function ExposureUpstream({ upstream }: { upstream: UpstreamEntry[] }) {
+  const failing = _.filter(upstream, (entry) => entry.failing_tests.length > 0);
+  const stale = _.filter(upstream, "stale");
+  const counts = _.countBy(upstream, (entry) => entry.node.resource_type);
+
+  return (
+    <div className="panel">
+      <div className="panel-body">
+        <p>
+          {_.map(
+            counts,
+            (count, type) => `${count} ${type}${count == 1 ? "" : "s"}`
+          ).join(", ")}
+          {failing.length || stale.length ? (
+            <>
+              {" "}
+              &mdash;{" "}
+              <strong className="text-danger">
+                {_.compact([
+                  failing.length
+                    ? `${failing.length} with failing tests`
+                    : null,
+                  stale.length ? `${stale.length} stale sources` : null,
+                ]).join(", ")}
+              </strong>
+            </>
+          ) : null}
+        </p>
+        <div className="table-responsive">
+          <table className="table table-borderless table-hover">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Type</th>
+                <th className="text-right">Distance</th>
+                <th>Issues</th>
+              </tr>
+            </thead>
+            <tbody>
+              {upstream.map(({ node, depth, failing_tests, stale }) => (
+                <tr
+                  key={node.unique_id}
+                  style={
+                    failing_tests.length || stale
+                      ? { backgroundColor: problemBackground }
+                      : undefined
+                  }
+                >
+                  <td>
+                    <Link href={getNodeUrl(node)}>{node.label}</Link>
+                  </td>
+                  <td>{node.resource_type}</td>
+                  <td className="text-right">{depth}</td>
+                  <td>
+                    {stale ? (
+                      <TestStatusBadge
+                        status={node.freshness_result.status}
+                        title={`freshness: ${node.freshness_result.status}`}
+                      >
+                        stale
+                      </TestStatusBadge>
+                    ) : null}
+                    {failing_tests.length ? (
+                      <TestStatusBadge
+                        status={worstStatus(_.map(failing_tests, "run_result"))}
+                        title={failing_tests
+                          .map(
+                            (test) => `${test.name}: ${test.run_result.status}`
+                          )
+                          .join("\n")}
+                      >
+                        {failing_tests.length} failing test
+                        {failing_tests.length == 1 ? "" : "s"}
+                      </TestStatusBadge>
+                    ) : null}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
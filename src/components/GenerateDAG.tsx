@@ -1,10 +1,13 @@
-"use client";
 import React from "react";
-import _ from "underscore";
+import * as projectService from "@/app/projectService";
+import { getLineageGraph } from "@/util/dagUtils";
 import { GenerateDAGClient } from "./GenerateDAGClient";
 
 export const GenerateDAG = ({ model }: { model: any }) => {
-  return (
-    < GenerateDAGClient model={model}  />
+  const lineage = getLineageGraph(
+    projectService.project,
+    projectService.project.nodes,
+    model.unique_id
   );
-};
\ No newline at end of file
+  return <GenerateDAGClient lineage={lineage} focus={model.unique_id} />;
+};
@@ -1,4 +1,107 @@
-export function Graph() {
-  // TODO
-  return <div />;
+"use client";
+import React from "react";
+import dynamic from "next/dynamic";
+import { useRouter } from "next/navigation";
+import _ from "underscore";
+import { getNodeUrl } from "@/util/nodeUrl";
+
+// vis-network touches `window` on import, so it can only be loaded in the
+// browser and never during static generation.
+const VisGraph = dynamic<any>(() => import("react-graph-vis"), {
+  ssr: false,
+});
+
+const nodeColors: Record<string, string> = {
+  model: "#0094b3",
+  source: "#5fb825",
+  seed: "#8e44ad",
+  snapshot: "#ff694b",
+  analysis: "#5e666c",
+  exposure: "#ff694b",
+  metric: "#ff5688",
+  semantic_model: "#c56dd1",
+  saved_query: "#e3a21a",
+};
+
+export function Graph({
+  lineage,
+  focus,
+  height = "100%",
+}: {
+  lineage: { nodes: any[]; edges: any[] };
+  focus?: string | null;
+  height?: string;
+}) {
+  const router = useRouter();
+
+  const graph = React.useMemo(
+    () => ({
+      nodes: lineage.nodes.map((node) => ({
+        id: node.unique_id,
+        label: node.label,
+        title: `${node.resource_type}: ${node.unique_id} (${node.project_name})`,
+        shape: "box",
+        borderWidth: node.unique_id === focus ? 3 : 1,
+        color: {
+          background: nodeColors[node.resource_type] || "#0094b3",
+          border: node.unique_id === focus ? "#313539" : "#ffffff",
+        },
+        font: { color: "#ffffff", face: "Tahoma", size: 12 },
+      })),
+      // refs between projects of a dbt mesh are drawn dashed
+      edges: lineage.edges.map(({ from, to, cross_project }) => ({
+        id: from + "->" + to,
+        from,
+        to,
+        dashes: !!cross_project,
+      })),
+    }),
+    [lineage, focus]
+  );
+
+  const events = React.useMemo(() => {
+    const byId = _.indexBy(lineage.nodes, "unique_id");
+    return {
+      select: ({ nodes }: { nodes: string[] }) => {
+        const node = byId[nodes[0]];
+        if (node && node.unique_id !== focus) {
+          router.push(getNodeUrl(node));
+        }
+      },
+    };
+  }, [lineage, focus, router]);
+
+  const options = {
+    layout: {
+      hierarchical: {
+        enabled: true,
+        direction: "LR",
+        sortMethod: "directed",
+        levelSeparation: 250,
+        nodeSpacing: 50,
+      },
+    },
+    edges: {
+      width: 1,
+      color: { color: "#8b969e" },
+      arrows: { to: { enabled: true, scaleFactor: 0.5 } },
+      smooth: { type: "cubicBezier", forceDirection: "horizontal" },
+    },
+    physics: false,
+    interaction: {
+      navigationButtons: true,
+      tooltipDelay: 200,
+      hideEdgesOnDrag: true,
+    },
+    height: height,
+  };
+
+  return (
+    <VisGraph
+      key={focus || ""}
+      graph={graph}
+      options={options}
+      events={events}
+    />
+  );
 }
@@ -1,3 +1,213 @@
+"use client";
+
+import React from "react";
+import useSWR from "swr";
+import { usePathname, useSearchParams } from "next/navigation";
+import { Graph } from "./Graph";
+import Spinner from "./Spinner";
+import {
+  buildChildMap,
+  buildGraphElements,
+  getLineageGraph,
+} from "@/util/dagUtils";
+import { selectNodes } from "@/util/selectorUtils";
+import { parseNodeUrl } from "@/util/nodeUrl";
+
+async function fetcher(url: string) {
+  const response = await fetch(url);
+  const json = await response.json();
+  return json;
+}
+
+const emptySelection = { include: "", exclude: "" };
+
 export const GraphLauncher = () => {
-  return <div />;
+  const [expanded, setExpanded] = React.useState(false);
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const current = parseNodeUrl(pathname || "");
+
+  const { data } = useSWR(
+    expanded ? `${process.env.NEXT_PUBLIC_BASE_PATH ?? ""}/graphdata` : null,
+    fetcher
+  );
+
+  const dag = React.useMemo(
+    () =>
+      data
+        ? {
+            parent_map: data.parent_map,
+            child_map: buildChildMap(data.parent_map),
+          }
+        : null,
+    [data]
+  );
+
+  // The applied selection. An empty --select falls back to the full lineage
+  // of the page's node, which is what `+node+` would give.
+  const [selection, setSelection] = React.useState(emptySelection);
+  const [dirty, setDirty] = React.useState(emptySelection);
+  React.useEffect(() => {
+    // g_v, g_i and g_e open the graph the way links into the original dbt
+    // docs did, see getLegacyUrl
+    const linked = {
+      include: searchParams.get("g_i") || "",
+      exclude: searchParams.get("g_e") || "",
+    };
+    setSelection(linked);
+    setDirty(linked);
+    if (searchParams.get("g_v")) {
+      setExpanded(true);
+    }
+  }, [pathname, searchParams]);
+
+  const uniqueId =
+    current && data && data.nodes[current.unique_id] ? current.unique_id : null;
+  const { lineage, error } = React.useMemo(() => {
+    if (!dag) {
+      return { lineage: null, error: null };
+    }
+    if (selection.include || selection.exclude) {
+      try {
+        const ids = selectNodes(
+          dag,
+          data.nodes,
+          selection.include,
+          selection.exclude
+        );
+        return {
+          lineage: buildGraphElements(dag, data.nodes, ids),
+          error: null,
+        };
+      } catch (e: any) {
+        return { lineage: null, error: e.message };
+      }
+    }
+    return {
+      lineage: uniqueId ? getLineageGraph(dag, data.nodes, uniqueId) : null,
+      error: null,
+    };
+  }, [dag, data, uniqueId, selection]);
+
+  const placeholder = uniqueId ? `+${data.nodes[uniqueId].name}+` : "...";
+
+  return (
+    <div
+      className={`launcher ${expanded ? "on" : ""}`}
+      data-launcher="fullscreen"
+    >
+      <div className="launcher-section">
+        <div className="launcher-btn">
+          <a
+            className="btn btn-info btn-pill btn-lg btn-icon btn-shadow"
+            data-toggle="tooltip"
+            title="View Lineage Graph"
+            onClick={() => {
+              setExpanded(true);
+            }}
+          >
+            <svg className="icn icn-md">
+              <use xlinkHref="#icn-flow"></use>
+            </svg>
+          </a>
+        </div>
+        <div className="launcher-content">
+          <div className="launcher-window">
+            <div className="launcher-header">
+              <div className="launcher-cell">
+                <h6>Lineage Graph</h6>
+              </div>
+              <div className="launcher-actions">
+                <a
+                  className="btn btn-text btn-lg btn-icon btn-shadow"
+                  data-toggle="tooltip"
+                  title="Close"
+                  onClick={() => {
+                    setExpanded(false);
+                  }}
+                >
+                  <svg className="icn icn-md">
+                    <use xlinkHref="#icn-close"></use>
+                  </svg>
+                </a>
+              </div>
+            </div>
+            <div className="launcher-body" style={{ background: "white" }}>
+              {!expanded ? null : !data ? (
+                <div
+                  style={{
+                    display: "grid",
+                    height: "100%",
+                    placeItems: "center",
+                  }}
+                >
+                  <Spinner />
+                </div>
+              ) : error ? (
+                <div className="app-pad text-danger">{error}</div>
+              ) : lineage ? (
+                <Graph lineage={lineage} focus={uniqueId} />
+              ) : (
+                <div className="app-pad text-dark">
+                  Open a model, source, seed, snapshot, exposure or metric to
+                  view its lineage, or enter a selector below.
+                </div>
+              )}
+            </div>
+            <div className="launcher-footer">
+              <div className="launcher-cell launcher-flush">
+                <div className="component bg-navy text-navy-lightest margin">
+                  <form
+                    className="fields fields-flush"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      setSelection(dirty);
+                    }}
+                  >
+                    <label className="field" style={{ flex: "4 0 160px" }}>
+                      <input
+                        type="text"
+                        className="field-input form-control input-dark"
+                        value={dirty.include}
+                        onChange={(e) => {
+                          const include = e.target.value;
+                          setDirty((dirty) => ({ ...dirty, include }));
+                        }}
+                        placeholder={placeholder}
+                      />
+                      <div className="field-label">--select</div>
+                    </label>
+                    <label className="field" style={{ flex: "4 0 160px" }}>
+                      <input
+                        type="text"
+                        className="field-input form-control input-dark"
+                        value={dirty.exclude}
+                        onChange={(e) => {
+                          const exclude = e.target.value;
+                          setDirty((dirty) => ({ ...dirty, exclude }));
+                        }}
+                        placeholder="..."
+                      />
+                      <div className="field-label">--exclude</div>
+                    </label>
+                    <label className="field" style={{ flex: "0 0 80px" }}>
+                      <input
+                        type="submit"
+                        className="field-input form-control input-dark"
+                        value="Update Graph"
+                      />
+                      <div
+                        className="field-label text-center"
+                        style={{ width: "100%" }}
+                      ></div>
+                    </label>
+                  </form>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
 };
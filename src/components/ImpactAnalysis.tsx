@@ -0,0 +1,100 @@
+import "server-only";
+
+import React from "react";
+import Link from "next/link";
+import _ from "lodash";
+import * as projectService from "@/app/projectService";
+import { getImpact, getImpactOwners } from "@/util/impact";
+import { ImpactExport } from "./ImpactExport";
+
+// Resources reached last, where a change shows up for consumers
+const consumerTypes = ["exposure", "metric", "saved_query"];
+
+export function ImpactAnalysis({ node }: { node: any }) {
+  const entries = getImpact(
+    projectService.project,
+    node,
+    projectService.get_owners
+  );
+  if (!entries.length) {
+    return (
+      <div className="panel">
+        <div className="panel-body">
+          Nothing depends on this {node.resource_type}
+        </div>
+      </div>
+    );
+  }
+
+  const consumers = _.filter(entries, (entry) =>
+    _.includes(consumerTypes, entry.resource_type)
+  );
+  const owners = getImpactOwners(entries);
+  const counts = _.countBy(entries, "resource_type");
+
+  return (
+    <div className="panel">
+      <div className="panel-body">
+        <p>
+          {_.map(
+            counts,
+            (count, type) => `${count} ${type}${count == 1 ? "" : "s"}`
+          ).join(", ")}{" "}
+          downstream
+          {consumers.length ? (
+            <>
+              , used by{" "}
+              {consumers.map((entry, index) => (
+                <span key={entry.unique_id}>
+                  {index ? ", " : null}
+                  <Link href={entry.url}>{entry.name}</Link>
+                </span>
+              ))}
+            </>
+          ) : null}
+        </p>
+        {owners.length ? (
+          <p>
+            Owners to notify:{" "}
+            {owners.map(({ owner, entries }, index) => (
+              <span key={owner}>
+                {index ? "; " : null}
+                <strong>{owner}</strong>{" "}
+                <small className="text-light">({entries.length})</small>
+              </span>
+            ))}
+          </p>
+        ) : null}
+        <ImpactExport name={node.label || node.name} entries={entries} />
+        <div className="table-responsive">
+          <table className="table table-borderless table-hover">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Type</th>
+                <th className="text-right">Depth</th>
+                <th>Path</th>
+                <th>Owners</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={entry.unique_id}>
+                  <td>
+                    <Link href={entry.url}>{entry.name}</Link>
+                  </td>
+                  <td>{entry.resource_type}</td>
+                  <td className="text-right">{entry.depth}</td>
+                  <td>
+                    <small>{entry.path.join(" → ")}</small>
+                  </td>
+                  <td>{entry.owners.join(", ")}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import React from "react";
+import { copyToClipboard } from "@/util/copyToClipboard";
+import { ImpactEntry, impactToCsv, impactToMarkdown } from "@/util/impact";
+
+function download(filename: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export const ImpactExport = ({
+  name,
+  entries,
+}: {
+  name: string;
+  entries: ImpactEntry[];
+}) => {
+  const [copied, setCopied] = React.useState(false);
+
+  return (
+    <div style={{ display: "flex", gap: "8px", marginBottom: "16px" }}>
+      <button
+        className="btn btn-sm"
+        onClick={() => download(`${name}_impact.csv`, impactToCsv(entries))}
+      >
+        Download CSV
+      </button>
+      <button
+        className="btn btn-sm"
+        onClick={() => {
+          copyToClipboard(impactToMarkdown(name, entries));
+          setCopied(true);
+          setTimeout(function () {
+            setCopied(false);
+          }, 1000);
+        }}
+      >
+        {copied ? "Copied" : "Copy as Markdown"}
+      </button>
+    </div>
+  );
+};
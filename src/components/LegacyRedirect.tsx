@@ -0,0 +1,18 @@
+"use client";
+import React from "react";
+import { useRouter } from "next/navigation";
+import { getLegacyUrl } from "@/util/nodeUrl";
+
+// Sends links into the original dbt docs site, e.g. /#!/model/model.x.orders,
+// to the matching page of this site. Only the root page can receive them, as
+// the hash never reaches the server.
+export function LegacyRedirect() {
+  const router = useRouter();
+  React.useEffect(() => {
+    const url = getLegacyUrl(window.location.hash);
+    if (url) {
+      router.replace(url);
+    }
+  }, [router]);
+  return null;
+}
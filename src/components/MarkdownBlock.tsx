@@ -1,6 +1,90 @@
 "use client";
+import Link from "next/link";
 import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeRaw from "rehype-raw";
+import rehypeSanitize, { defaultSchema } from "rehype-sanitize";
+import SyntaxHighlighter from "react-syntax-highlighter";
+import { getLegacyUrl } from "@/util/nodeUrl";
+import { MarkdownDiagram } from "./MarkdownDiagram";
+
+const diagramLanguages: Record<string, string> = {
+  mermaid: "mermaid",
+  dot: "graphviz",
+  graphviz: "graphviz",
+};
+
+// Inline HTML is allowed, but only what GitHub would render, plus the
+// language of fenced code blocks
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [
+      ...((defaultSchema.attributes || {}).code || []),
+      ["className", /^language-./],
+    ],
+  },
+};
 
 export function MarkdownBlock({ markdown }: { markdown: string }) {
-  return <ReactMarkdown>{markdown}</ReactMarkdown>;
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      rehypePlugins={[rehypeRaw, [rehypeSanitize, sanitizeSchema]]}
+      components={{
+        a({ node, href, children, ...props }) {
+          const url = href ? getLegacyUrl(href) : null;
+          if (url) {
+            return <Link href={url}>{children}</Link>;
+          }
+          return (
+            <a href={href} {...props}>
+              {children}
+            </a>
+          );
+        },
+        // fenced code renders its own <pre>, see code below
+        pre({ children }) {
+          return <>{children}</>;
+        },
+        code({ node, inline, className, children, ...props }) {
+          const language = /language-(\S+)/.exec(className || "");
+          if (inline) {
+            return (
+              <code className={className} {...props}>
+                {children}
+              </code>
+            );
+          } else if (!language) {
+            return (
+              <pre>
+                <code {...props}>{children}</code>
+              </pre>
+            );
+          }
+          const source = String(children).replace(/\n$/, "");
+          if (diagramLanguages[language[1]]) {
+            return (
+              <MarkdownDiagram
+                language={diagramLanguages[language[1]]}
+                source={source}
+              />
+            );
+          }
+          return (
+            <SyntaxHighlighter
+              language={language[1]}
+              className="code"
+              customStyle={{ background: "white" }}
+            >
+              {source}
+            </SyntaxHighlighter>
+          );
+        },
+      }}
+    >
+      {markdown}
+    </ReactMarkdown>
+  );
 }
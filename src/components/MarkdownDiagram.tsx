@@ -0,0 +1,108 @@
+"use client";
+import React from "react";
+import _ from "lodash";
+
+let diagramCount = 0;
+
+// Elements that can run script or change links after the fact
+const unsafeElements = ["script", "foreignObject", "set", "animate"];
+
+function isSafeUrl(url: string) {
+  // eslint-disable-next-line no-control-regex
+  const value = url.replace(/[\u0000- ]/g, "");
+  const scheme = value.match(/^([a-z][a-z0-9+.-]*):/i);
+  return !scheme || _.includes(["http", "https"], scheme[1].toLowerCase());
+}
+
+// Graphviz copies URL/href attributes into the SVG as they are written, so
+// drop script, event handlers and links other than http(s) or relative ones
+function sanitizeSvg(svg: string) {
+  const doc = new DOMParser().parseFromString(svg, "image/svg+xml");
+  _.each(unsafeElements, (tag) => {
+    _.each(_.toArray(doc.getElementsByTagName(tag)), (element) =>
+      element.remove()
+    );
+  });
+  _.each(_.toArray(doc.getElementsByTagName("*")), (element) => {
+    _.each(_.toArray(element.attributes), (attribute) => {
+      const name = attribute.name.toLowerCase();
+      if (
+        _.startsWith(name, "on") ||
+        ((name == "href" || name == "xlink:href") &&
+          !isSafeUrl(attribute.value))
+      ) {
+        element.removeAttributeNode(attribute);
+      }
+    });
+  });
+  return new XMLSerializer().serializeToString(doc.documentElement);
+}
+
+async function renderDiagram(language: string, source: string) {
+  if (language == "mermaid") {
+    const mermaid = (await import("mermaid")).default;
+    // strict mode escapes HTML in labels and disables click handlers
+    mermaid.initialize({ startOnLoad: false, securityLevel: "strict" });
+    const { svg } = await mermaid.render(
+      `markdown-diagram-${++diagramCount}`,
+      source
+    );
+    return svg;
+  }
+  const viz = await (await import("@viz-js/viz")).instance();
+  return sanitizeSvg(viz.renderString(source, { format: "svg" }));
+}
+
+// Mermaid and graphviz (```dot) diagrams in descriptions. Both libraries are
+// large, so they are only loaded on pages that have a diagram.
+export function MarkdownDiagram({
+  language,
+  source,
+}: {
+  language: string;
+  source: string;
+}) {
+  const [svg, setSvg] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    renderDiagram(language, source).then(
+      (result) => {
+        if (!cancelled) {
+          setSvg(result);
+          setError(null);
+        }
+      },
+      (e) => {
+        if (!cancelled) {
+          setError(e.message || String(e));
+        }
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [language, source]);
+
+  if (error) {
+    return (
+      <div>
+        <div className="text-danger">
+          The {language} diagram could not be rendered: {error}
+        </div>
+        <pre>{source}</pre>
+      </div>
+    );
+  }
+  if (!svg) {
+    return <pre>{source}</pre>;
+  }
+  return (
+    <div
+      className="markdown-diagram"
+      style={{ overflowX: "auto" }}
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+}
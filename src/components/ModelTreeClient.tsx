@@ -5,6 +5,8 @@ import React from "react";
 import _ from "underscore";
 import useSWR from "swr";
 import { getNodeUrl } from "@/util/nodeUrl";
+import { buildChildMap } from "@/util/dagUtils";
+import { selectNodes } from "@/util/selectorUtils";
 
 // Used before the data is loading to store which item was set as active
 let _currentActive: string | null = null;
@@ -33,6 +35,56 @@ export function ModelTreeClient() {
   );
   const tree = data || emptyObject;
 
+  // Optional dbt selector used to narrow down the tree, e.g. `tag:finance+`
+  const [selector, setSelector] = React.useState("");
+  const [dirtySelector, setDirtySelector] = React.useState("");
+  const { data: graph } = useSWR(
+    selector ? `${process.env.NEXT_PUBLIC_BASE_PATH ?? ""}/graphdata` : null,
+    fetcher
+  );
+  const { selected, selectorError } = React.useMemo(() => {
+    if (!selector || !graph) {
+      return { selected: null, selectorError: null };
+    }
+    const dag = {
+      parent_map: graph.parent_map,
+      child_map: buildChildMap(graph.parent_map),
+    };
+    try {
+      const ids = selectNodes(dag, graph.nodes, selector);
+      const selected: Record<string, boolean> = {};
+      ids.forEach((id) => {
+        selected[id] = true;
+      });
+      return {
+        selected: selected,
+        selectorError: null,
+      };
+    } catch (e: any) {
+      return { selected: null, selectorError: e.message };
+    }
+  }, [selector, graph]);
+
+  // In a dbt mesh the tree can be narrowed down to what one project sees: its
+  // own nodes and the public models of the other projects
+  const [activeProject, setActiveProject] = React.useState("");
+  const visible = React.useMemo(() => {
+    if (!activeProject) {
+      return selected;
+    }
+    const inProject = projectNodes(tree, activeProject);
+    if (!selected) {
+      return inProject;
+    }
+    const visible: Record<string, boolean> = {};
+    Object.keys(selected).forEach((id) => {
+      if (inProject[id]) {
+        visible[id] = true;
+      }
+    });
+    return visible;
+  }, [tree, activeProject, selected]);
+
   const [_unused, forceRerender] = React.useReducer((s) => s + 1, 0);
   const setActive = React.useCallback(
     (uniqueId: string) => {
@@ -71,6 +123,43 @@ export function ModelTreeClient() {
               Overview
             </a>
           </li>
+          <li>
+            <Link href="/health" className="menu-link">
+              Project health
+            </Link>
+          </li>
+          <li>
+            <Link href="/coverage" className="menu-link">
+              Documentation coverage
+            </Link>
+          </li>
+          <li>
+            <Link href="/doc_blocks" className="menu-link">
+              Doc blocks
+            </Link>
+          </li>
+          <li>
+            <Link href="/test_coverage" className="menu-link">
+              Test coverage
+            </Link>
+          </li>
+          <li>
+            <Link href="/exposure_owners" className="menu-link">
+              Exposure owners
+            </Link>
+          </li>
+          <li>
+            <Link href="/slowest_models" className="menu-link">
+              Slowest models
+            </Link>
+          </li>
+          {tree.has_baseline ? (
+            <li>
+              <Link href="/changes" className="menu-link">
+                Changes since baseline
+              </Link>
+            </li>
+          ) : null}
           <li>
             <div className="switches">
               <div className="switch ">
@@ -105,6 +194,48 @@ export function ModelTreeClient() {
               </div>
             </div>
           </li>
+          {tree.projects ? (
+            <li>
+              <select
+                className="form-control"
+                value={activeProject}
+                onChange={(e) => {
+                  setActiveProject(e.target.value);
+                }}
+                title="dbt project"
+              >
+                <option value="">All projects</option>
+                {tree.projects.map((name: string) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </li>
+          ) : null}
+          <li>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                setSelector(dirtySelector.trim());
+              }}
+            >
+              <input
+                type="text"
+                className="form-control"
+                value={dirtySelector}
+                onChange={(e) => {
+                  setDirtySelector(e.target.value);
+                }}
+                placeholder="Filter, e.g. tag:finance+"
+                title="dbt node selector"
+              />
+            </form>
+            {selectorError ? (
+              <div className="text-danger">{selectorError}</div>
+            ) : null}
+            <br />
+          </li>
           {activeSection === "project" ? (
             <li>
               <div className="menu">
@@ -113,24 +244,49 @@ export function ModelTreeClient() {
                   elements={tree.sources}
                   resourceType="source"
                   setActive={setActive}
+                  selected={visible}
                 />
                 <TreeSection
                   title="Exposures"
                   elements={tree.exposures}
                   resourceType="exposure"
                   setActive={setActive}
+                  selected={visible}
                 />
                 <TreeSection
                   title="Metrics"
                   elements={tree.metrics}
                   resourceType="metric"
                   setActive={setActive}
+                  selected={visible}
+                />
+                <TreeSection
+                  title="Semantic Models"
+                  elements={tree.semantic_models}
+                  resourceType="semantic_model"
+                  setActive={setActive}
+                  selected={visible}
+                />
+                <TreeSection
+                  title="Saved Queries"
+                  elements={tree.saved_queries}
+                  resourceType="saved_query"
+                  setActive={setActive}
+                  selected={visible}
+                />
+                <TreeSection
+                  title="Groups"
+                  elements={tree.groups}
+                  resourceType="group"
+                  setActive={setActive}
+                  selected={visible}
                 />
                 <TreeSection
                   title="Projects"
                   elements={tree.project}
                   resourceType="model"
                   setActive={setActive}
+                  selected={visible}
                 />
               </div>
             </li>
@@ -141,6 +297,7 @@ export function ModelTreeClient() {
                 elements={tree.database}
                 resourceType="database"
                 setActive={setActive}
+                selected={visible}
               />
             </li>
           )}
@@ -155,11 +312,13 @@ const MenuTreeSection = ({
   elements,
   resourceType,
   setActive,
+  selected,
 }: {
   title: string;
   elements: any;
   resourceType: any;
   setActive: (uniqueId: string) => void;
+  selected?: Record<string, boolean> | null;
 }) => {
   return elements?.length ? (
     <div className="menu">
@@ -168,6 +327,7 @@ const MenuTreeSection = ({
         elements={elements}
         resourceType={resourceType}
         setActive={setActive}
+        selected={selected}
       />
     </div>
   ) : null;
@@ -178,23 +338,27 @@ const TreeSection = ({
   elements,
   resourceType,
   setActive,
+  selected,
 }: {
   title: string;
   elements: any;
   resourceType: any;
   setActive: (uniqueId: string) => void;
+  selected?: Record<string, boolean> | null;
 }) => {
-  return elements?.length ? (
+  const visible = filterSelected(elements, selected);
+  return visible?.length ? (
     <div>
       <strong>{title}</strong>
       <ul style={{ display: "block" }}>
-        {elements.map((item: any) => (
+        {visible.map((item: any) => (
           <ModelTreeLine
             key={item.name}
             item={item}
             resourceType={resourceType}
             active={item.active}
             setActive={setActive}
+            selected={selected}
           />
         ))}
       </ul>
@@ -209,12 +373,14 @@ const ModelTreeLine = ({
   depth = 0,
   active = false,
   setActive,
+  selected,
 }: {
   item: any;
   resourceType: any;
   depth?: number;
   active?: boolean;
   setActive: (uniqueId: string) => void;
+  selected?: Record<string, boolean> | null;
 }) => {
   const name = item.name;
   const end = _.last(name, 15).join("");
@@ -230,7 +396,10 @@ const ModelTreeLine = ({
   const classes: any = {
     active: item.active || isOpen,
     "menu-tree":
-      item.type == "header" || item.type == "schema" || item.type == "folder",
+      item.type == "header" ||
+      item.type == "schema" ||
+      item.type == "folder" ||
+      item.type == "group",
     "menu-main": item.type == "header",
     "menu-node": item.type == "file" || item.type == "table",
   };
@@ -269,6 +438,8 @@ const ModelTreeLine = ({
           href={
             resourceType === "source"
               ? `/source_list/${item.name}/`
+              : resourceType === "group"
+              ? `/group/${item.group_id}/`
               : resourceType !== "database"
               ? `/overview/${item.name.toLowerCase()}/`
               : "#"
@@ -295,14 +466,15 @@ const ModelTreeLine = ({
 
       {isOpen && item.items?.length ? (
         <ul>
-          {item.items.map((subitem: any, index: number) => (
+          {filterSelected(item.items, selected).map((subitem: any) => (
             <ModelTreeLine
-              key={index}
+              key={subitem.unique_id || subitem.name}
               depth={depth + 1}
               item={subitem}
               resourceType={resourceType}
               active={subitem.active}
               setActive={setActive}
+              selected={selected}
             />
           ))}
         </ul>
@@ -346,6 +518,42 @@ function getIcon(type: keyof typeof icons, onOff: "on" | "off") {
   return "#" + icons[type][onOff];
 }
 
+// Ids of the nodes shown for one project of a mesh: its own and public ones
+function projectNodes(tree: any, projectName: string) {
+  const nodes: Record<string, boolean> = {};
+  const visit = (items: any) => {
+    _.each(items, (item: any) => {
+      if (
+        item.unique_id &&
+        (item.project_name == projectName || item.access == "public")
+      ) {
+        nodes[item.unique_id] = true;
+      }
+      visit(item.items);
+    });
+  };
+  _.each(_.values(tree), visit);
+  return nodes;
+}
+
+// Keeps the tree items that are, or contain, a node matched by the selector.
+// Items are filtered rather than copied so that `active` flags set by
+// updateSelected keep working.
+function filterSelected(
+  items: any,
+  selected?: Record<string, boolean> | null
+): any[] {
+  if (!selected) {
+    return items;
+  }
+  return _.filter(items, function (item: any) {
+    if (item.unique_id) {
+      return !!selected[item.unique_id];
+    }
+    return filterSelected(item.items, selected).length > 0;
+  });
+}
+
 function updateSelectedInTree(uniqueId: string, subtrees: any) {
   var is_active = false;
   _.each(subtrees, function (subtree) {
@@ -371,4 +579,7 @@ function updateSelected(uniqueId: string, tree: any) {
   updateSelectedInTree(uniqueId, tree.sources);
   updateSelectedInTree(uniqueId, tree.exposures);
   updateSelectedInTree(uniqueId, tree.metrics);
+  updateSelectedInTree(uniqueId, tree.semantic_models);
+  updateSelectedInTree(uniqueId, tree.saved_queries);
+  updateSelectedInTree(uniqueId, tree.groups);
 }
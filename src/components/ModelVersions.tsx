@@ -0,0 +1,182 @@
+import React from "react";
+import Link from "next/link";
+import _ from "lodash";
+import { getNodeUrl } from "@/util/nodeUrl";
+import {
+  ColumnChange,
+  diffVersionColumns,
+  getDeprecation,
+  getVersionLabel,
+  isLatestVersion,
+} from "@/util/modelVersions";
+import { TestStatusBadge } from "./TestStatusBadge";
+
+const changeLabels = {
+  added: "added",
+  removed: "removed",
+  type: "type changed",
+};
+
+const changeStatus = {
+  added: "pass",
+  removed: "fail",
+  type: "warn",
+};
+
+export function VersionBadge({ model }: { model: any }) {
+  const label = getVersionLabel(model);
+  if (!label) {
+    return null;
+  }
+  return (
+    <TestStatusBadge status={label == "latest" ? "pass" : "skipped"}>
+      {label}
+    </TestStatusBadge>
+  );
+}
+
+// Links to the other versions of a model, shown under the page title
+export function VersionSwitcher({
+  model,
+  versions,
+}: {
+  model: any;
+  versions: any[];
+}) {
+  return (
+    <p>
+      Versions:{" "}
+      {versions.map((version, index) => (
+        <span key={version.unique_id}>
+          {index ? " · " : null}
+          {version.unique_id == model.unique_id ? (
+            <strong>v{version.version}</strong>
+          ) : (
+            <Link href={getNodeUrl(version)}>v{version.version}</Link>
+          )}
+          {isLatestVersion(version) ? (
+            <small className="text-light"> (latest)</small>
+          ) : null}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+export function DeprecationBanner({ model }: { model: any }) {
+  const deprecation = getDeprecation(model);
+  if (!deprecation) {
+    return null;
+  }
+  return (
+    <div className="alert alert-warning">
+      {deprecation.passed
+        ? `This version was deprecated on ${deprecation.date}.`
+        : `This version will be deprecated on ${deprecation.date}.`}{" "}
+      {!isLatestVersion(model) && model.latest_version != null
+        ? `Migrate to version ${model.latest_version}.`
+        : null}
+    </div>
+  );
+}
+
+function ColumnChanges({ changes }: { changes: ColumnChange[] }) {
+  if (!changes.length) {
+    return <p className="text-light">No column changes</p>;
+  }
+  return (
+    <div className="table-responsive">
+      <table className="table table-borderless table-hover">
+        <tbody>
+          {changes.map((change) => (
+            <tr key={change.name}>
+              <td style={{ width: "1px", whiteSpace: "nowrap" }}>
+                <TestStatusBadge status={changeStatus[change.change]}>
+                  {changeLabels[change.change]}
+                </TestStatusBadge>
+              </td>
+              <td>
+                <span className="text-dark">{change.name}</span>
+              </td>
+              <td>
+                {change.change == "type" ? (
+                  <>
+                    <code>{change.from}</code> &rarr; <code>{change.to}</code>
+                  </>
+                ) : (
+                  <code>{change.from || change.to}</code>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Every version with its deprecation date, and the column changes between
+// each version and the one before it, newest first
+export function ModelVersions({
+  model,
+  versions,
+}: {
+  model: any;
+  versions: any[];
+}) {
+  const steps = _.map(_.tail(versions), (version, index) => ({
+    from: versions[index],
+    to: version,
+    changes: diffVersionColumns(versions[index], version),
+  })).reverse();
+
+  return (
+    <div className="panel">
+      <div className="panel-body">
+        <div className="table-responsive">
+          <table className="table table-borderless table-hover">
+            <thead>
+              <tr>
+                <th>Version</th>
+                <th>Access</th>
+                <th>Columns</th>
+                <th>Deprecation date</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...versions].reverse().map((version) => (
+                <tr key={version.unique_id}>
+                  <td>
+                    {version.unique_id == model.unique_id ? (
+                      <strong>v{version.version}</strong>
+                    ) : (
+                      <Link href={getNodeUrl(version)}>v{version.version}</Link>
+                    )}{" "}
+                    <VersionBadge model={version} />
+                  </td>
+                  <td>{version.access}</td>
+                  <td>{_.size(version.columns)}</td>
+                  <td>
+                    {version.deprecation_date || (
+                      <span className="text-light">-</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {steps.map((step) => (
+          <div key={step.to.unique_id}>
+            <p>
+              <strong>
+                v{step.from.version} &rarr; v{step.to.version}
+              </strong>
+            </p>
+            <ColumnChanges changes={step.changes} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -79,6 +79,10 @@ function mapResourceType(type: string) {
     return "Metrics";
   } else if (type == "operation") {
     return "Operations";
+  } else if (type == "semantic_model") {
+    return "Semantic Models";
+  } else if (type == "saved_query") {
+    return "Saved Queries";
   } else {
     return "Nodes";
   }
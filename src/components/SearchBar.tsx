@@ -53,7 +53,7 @@ export function SearchBar() {
 
   const { data, isLoading } = useSWR(
     isFocused || searchValue.trim().length > 0
-      ? `${process.env.NEXT_PUBLIC_BASE_PATH ?? ""}/searchdata`
+      ? `${process.env.NEXT_PUBLIC_BASE_PATH ?? ""}/searchindex`
       : null,
     fetcher
   );
@@ -78,7 +78,7 @@ export function SearchBar() {
         onBlur={() => setIsFocused(false)}
         type="text"
         className="form-control"
-        placeholder="Search for models..."
+        placeholder="Search, e.g. orders type:model tag:pii"
       />
       <div className="app-body"></div>
       {searchValue.length ? (
@@ -106,7 +106,8 @@ export function SearchBar() {
             >
               <SearchResults
                 query={searchValue}
-                searchable={data}
+                index={data}
+                setQuery={setSearchValue}
                 clearQuery={() => {
                   setSearchValue("");
                 }}
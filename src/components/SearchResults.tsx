@@ -3,123 +3,57 @@ import Link from "next/link";
 import React from "react";
 import { useVirtualizer } from "@tanstack/react-virtual";
 import { getNodeUrl } from "@/util/nodeUrl";
+import useSWR from "swr";
+import {
+  SearchIndex,
+  mergeCodeResults,
+  searchCode,
+  searchIndex,
+} from "@/util/searchIndex";
+import {
+  allowedMatchKeys,
+  countFacets,
+  filterSearchResults,
+  hasFacet,
+  parseSearchQuery,
+  searchInFields,
+  toggleFacet,
+} from "@/util/searchQuery";
 
-function fuzzySearchObj(query: string, obj: any) {
-  var objects = [];
-  var search_keys: any = {
-    name: "string",
-    description: "string",
-    raw_code: "string",
-    columns: "object",
-    column_description: "n/a", // special case
-    tags: "array",
-    arguments: "array",
-    label: "string",
-  };
-
-  let query_segments = _.words(query.toLowerCase());
-
-  for (const i in search_keys) {
-    // column descriptions are a special case because they are not a top-level key
-    if (i === "column_description") {
-      for (var column_name in obj["columns"]) {
-        if (obj["columns"][column_name]["description"] != null) {
-          if (
-            query_segments.every(
-              (segment) =>
-                obj["columns"][column_name]["description"]
-                  .toLowerCase()
-                  .indexOf(segment) != -1
-            )
-          ) {
-            objects.push({ key: i, value: query });
-          }
-        }
-      }
-    } else if (!obj[i]) {
-      // skip any other cases where the object is missing the key
-      continue;
-    } else if (
-      search_keys[i] === "string" &&
-      query_segments.every(
-        (segment) => obj[i].toLowerCase().indexOf(segment) != -1
-      )
-    ) {
-      objects.push({ key: i, value: query });
-    } else if (search_keys[i] === "object") {
-      for (var column_name in obj[i]) {
-        // there is a spark bug where columns are missing from the catalog. That needs to be fixed
-        // outside of docs but this if != null check will allow docs to continue to function now
-        // and also when the bug is fixed.
-        // relevant issue: https://github.com/dbt-labs/dbt-spark/issues/295
-        if (obj[i][column_name]["name"] != null) {
-          if (
-            query_segments.every(
-              (segment) =>
-                obj[i][column_name]["name"].toLowerCase().indexOf(segment) != -1
-            )
-          ) {
-            objects.push({ key: i, value: query });
-          }
-        }
-      }
-    } else if (search_keys[i] === "array") {
-      for (var tag of obj[i]) {
-        if (
-          query_segments.every(
-            (segment) =>
-              JSON.stringify(tag).toLowerCase().indexOf(segment) != -1
-          )
-        ) {
-          objects.push({ key: i, value: query });
-        }
-      }
-    }
-  }
-
-  return objects;
-}
-
-function search(q: string, searchable: any) {
-  if (q.length == 0) {
-    return _.map(searchable, function (model) {
-      return {
-        model: model,
-        matches: [],
-      };
-    });
-  }
-
-  const res: any[] = [];
-  _.each(searchable, function (model) {
-    var matches = fuzzySearchObj(q, model);
-    if (matches.length) {
-      res.push({
-        model: model,
-        matches: matches,
-      });
-    }
-  });
-  return res;
+// Code search chunks are listed by /codeindex and fetched in parallel.
+async function fetchCodeIndex() {
+  const basePath = process.env.NEXT_PUBLIC_BASE_PATH ?? "";
+  const response = await fetch(`${basePath}/codeindex`);
+  const { chunks } = await response.json();
+  const entries = await Promise.all(
+    _.range(chunks).map(async (chunk) => {
+      const response = await fetch(`${basePath}/codechunks/${chunk}`);
+      return await response.json();
+    })
+  );
+  return _.flatten(entries);
 }
 
 export function SearchResults({
   query,
-  searchable,
+  index,
+  setQuery,
   clearQuery,
 }: {
   query: string;
-  searchable: any;
+  index: SearchIndex;
+  setQuery: (query: string) => void;
   clearQuery: () => void;
 }) {
-  const [checkboxStatus, setCheckboxStatus] = React.useState({
-    show_names: false,
-    show_descriptions: false,
-    show_columns: false,
-    show_column_descriptions: false,
-    show_code: false,
-    show_tags: false,
-  });
+  const parsed = React.useMemo(() => parseSearchQuery(query), [query]);
+  const text = parsed.text;
+  const allowed = allowedMatchKeys(parsed);
+  const searchCodeEnabled = hasFacet(parsed, "in", "code");
+
+  // Highlight a field unless the query restricts matches to other fields
+  function shouldHighlight(key: string) {
+    return !allowed || _.includes(allowed, key);
+  }
 
   function getModelName(model: any) {
     if (model.resource_type == "source") {
@@ -137,68 +71,39 @@ export function SearchResults({
     }
   }
 
-  function filterResults(results: any, checkboxStatus: any) {
-    if (!_.some(_.values(checkboxStatus))) {
-      return results;
-    }
-
-    let finalResults: any = [];
-    let fileIDs: any = [];
-
-    const {
-      show_names,
-      show_descriptions,
-      show_columns,
-      show_column_descriptions,
-      show_code,
-      show_tags,
-    } = checkboxStatus;
-    for (const result of results) {
-      for (const match of result.matches) {
-        if (!fileIDs.includes(result.model["unique_id"])) {
-          const nameMatch =
-            show_names && (match.key === "name" || match.key == "label");
-          const descriptionMatch =
-            show_descriptions && match.key == "description";
-          const columnsMatch = show_columns && match.key === "columns";
-          const columnDescriptionMatch =
-            show_column_descriptions && match.key === "column_description";
-          const codeMatch = show_code && match.key === "raw_code";
-          const tagsMatch = show_tags && match.key === "tags";
+  // The code index is large, so it is only loaded once code search is enabled
+  const { data: codeEntries, isLoading: isLoadingCode } = useSWR(
+    searchCodeEnabled ? "codeindex" : null,
+    fetchCodeIndex
+  );
 
-          if (
-            nameMatch ||
-            descriptionMatch ||
-            columnsMatch ||
-            columnDescriptionMatch ||
-            codeMatch ||
-            tagsMatch
-          ) {
-            fileIDs.push(result.model["unique_id"]);
-            finalResults.push(result);
-          }
-        }
-      }
+  const matched = React.useMemo(() => {
+    let results = searchIndex(index, text);
+    if (searchCodeEnabled && codeEntries) {
+      results = mergeCodeResults(results, searchCode(codeEntries, text));
     }
-    return finalResults;
-  }
-
+    return results;
+  }, [text, index, searchCodeEnabled, codeEntries]);
   const results = React.useMemo(
-    () => filterResults(search(query, searchable), checkboxStatus),
-    [query, searchable, checkboxStatus]
+    () => filterSearchResults(matched, parsed),
+    [matched, parsed]
+  );
+  const facets = React.useMemo(
+    () => countFacets(matched, parsed),
+    [matched, parsed]
   );
 
   function shorten(text: string) {
     if (
       text != null &&
       text.trim().length > 0 &&
-      query != null &&
-      query.trim().length > 0
+      text != null &&
+      text.trim().length > 0
     ) {
       let modified = text.replace(/\s+/g, " ");
       //choose the first word in the search as the anchor for shortening.
       //Escaping in case the first token is "*" or another reserved regex character
-      let first_token = escapeRegExp(getQueryTokens(query)[0]);
+      let first_token = escapeRegExp(getQueryTokens(text)[0]);
       let indexOfInstance = modified.search(new RegExp(first_token));
       let startIndex = indexOfInstance - 75 < 0 ? 0 : indexOfInstance - 75;
       let endIndex =
@@ -212,12 +117,12 @@ export function SearchResults({
   }
 
   function highlight(text: string) {
-    if (!query || !text) {
+    if (!parsed.text.trim() || !text) {
       return text || "";
     }
     //wrap each word in a capturing group with a pipe between them, to allow any of the matches to highlight
     //e.g. "hello WORLD" changes to "(hello)|(world)"
-    let query_segments = getQueryTokens(query);
+    let query_segments = getQueryTokens(parsed.text);
     let escaped_segments = query_segments.map((segment) =>
       escapeRegExp(segment)
     );
@@ -230,7 +135,7 @@ export function SearchResults({
 
   function columnFilter(columns: string[]) {
     var matches = [];
-    let query_segments = getQueryTokens(query);
+    let query_segments = getQueryTokens(text);
 
     for (var column in columns) {
       if (
@@ -295,101 +200,54 @@ export function SearchResults({
                 <span>{results.length}</span> search results
               </small>
             </h1>
-            <input
-              type="checkbox"
-              id="name"
-              checked={checkboxStatus.show_names}
-              onChange={(e) => {
-                setCheckboxStatus((status) => ({
-                  ...status,
-                  show_names: e.target.checked,
-                }));
-              }}
-              style={{ marginLeft: "10px", marginRight: "5px" }}
-            />
-            <label htmlFor="name" style={{ marginRight: "25px" }}>
-              Name
-            </label>
-            <input
-              type="checkbox"
-              id="desc"
-              checked={checkboxStatus.show_descriptions}
-              onChange={(e) => {
-                setCheckboxStatus((status) => ({
-                  ...status,
-                  show_descriptions: e.target.checked,
-                }));
-              }}
-              style={{ marginRight: "5px" }}
-            />
-            <label htmlFor="desc" style={{ marginRight: "25px" }}>
-              Description
-            </label>
-            <input
-              type="checkbox"
-              id="column"
-              checked={checkboxStatus.show_columns}
-              onChange={(e) => {
-                setCheckboxStatus((status) => ({
-                  ...status,
-                  show_columns: e.target.checked,
-                }));
-              }}
-              style={{ marginRight: "5px" }}
-            />
-            <label htmlFor="column" style={{ marginRight: "25px" }}>
-              Column
-            </label>
-            <input
-              type="checkbox"
-              id="column_description"
-              checked={checkboxStatus.show_column_descriptions}
-              onChange={(e) => {
-                setCheckboxStatus((status) => ({
-                  ...status,
-                  show_column_descriptions: e.target.checked,
-                }));
-              }}
-              style={{ marginRight: "5px" }}
-            />
-            <label htmlFor="column_description" style={{ marginRight: "25px" }}>
-              Column Description
-            </label>
-            <input
-              type="checkbox"
-              id="code"
-              checked={checkboxStatus.show_code}
-              onChange={(e) => {
-                setCheckboxStatus((status) => ({
-                  ...status,
-                  show_code: e.target.checked,
-                }));
-              }}
-              style={{ marginRight: "5px" }}
-            />
-            <label htmlFor="code" style={{ marginRight: "15px" }}>
-              SQL
-            </label>
-            <input
-              type="checkbox"
-              id="tag"
-              checked={checkboxStatus.show_tags}
-              onChange={(e) => {
-                setCheckboxStatus((status) => ({
-                  ...status,
-                  show_tags: e.target.checked,
-                }));
-              }}
-              style={{ marginRight: "5px" }}
-            />
-            <label htmlFor="tag" style={{ marginRight: "15px" }}>
-              Tags
-            </label>
           </div>
         </div>
         <div className="app-details">
-          <div className="app-frame app-pad" style={{ paddingTop: 0 }}>
-            <div className="results" style={{ height: totalHeight + "px" }}>
+          <div
+            className="app-frame app-pad"
+            style={{ paddingTop: 0, display: "flex", columnGap: "30px" }}
+          >
+            <div
+              style={{
+                flex: "0 0 200px",
+                alignSelf: "flex-start",
+                position: "sticky",
+                top: 0,
+              }}
+            >
+              {facets.map((facet) =>
+                facet.values.length ? (
+                  <SearchFacet
+                    key={facet.key}
+                    title={facet.title}
+                    values={facet.values}
+                    isSelected={(value) => hasFacet(parsed, facet.key, value)}
+                    onToggle={(value) =>
+                      setQuery(toggleFacet(query, facet.key, value))
+                    }
+                  />
+                ) : null
+              )}
+              <SearchFacet
+                title="Search in"
+                values={_.map(_.keys(searchInFields), (value) => ({
+                  value: value,
+                  count:
+                    value == "code" && isLoadingCode ? "loading..." : undefined,
+                }))}
+                isSelected={(value) => hasFacet(parsed, "in", value)}
+                onToggle={(value) => setQuery(toggleFacet(query, "in", value))}
+              />
+            </div>
+            <div
+              className="results"
+              style={{
+                height: totalHeight + "px",
+                flex: "1 1 auto",
+                minWidth: 0,
+                position: "relative",
+              }}
+            >
               {items.map(({ index, key, start, measureElement }) => {
                 const result = results[index];
                 return (
@@ -424,7 +282,7 @@ export function SearchResults({
                             <h4 className="a">
                               <span
                                 dangerouslySetInnerHTML={{
-                                  __html: checkboxStatus.show_names
+                                  __html: shouldHighlight("name")
                                     ? highlight(getModelName(result.model))
                                     : getModelName(result.model),
                                 }}
@@ -433,14 +291,14 @@ export function SearchResults({
                             </h4>
                             <p
                               dangerouslySetInnerHTML={{
-                                __html: checkboxStatus.show_descriptions
+                                __html: shouldHighlight("description")
                                   ? highlight(shorten(result.model.description))
                                   : shorten(result.model.description),
                               }}
                             />
                           </div>
                         </div>
-                        {query.length > 0 ? (
+                        {text.trim().length > 0 ? (
                           <>
                             <div className="sub-results">
                               <div style={{ display: "grid" }}>
@@ -460,7 +318,7 @@ export function SearchResults({
                                         ) : null}
                                         <span
                                           dangerouslySetInnerHTML={{
-                                            __html: checkboxStatus.show_columns
+                                            __html: shouldHighlight("columns")
                                               ? highlight(
                                                   column +
                                                     (arr.length - 1 === index
@@ -479,17 +337,26 @@ export function SearchResults({
                                 </div>
                               </div>
                             </div>
-                            <div className="sub-results">
-                              <span>
-                                <span
-                                  dangerouslySetInnerHTML={{
-                                    __html: highlight(
-                                      shorten(result.model["raw_code"])
-                                    ),
-                                  }}
-                                />
-                              </span>
-                            </div>
+                            {result.code_matches ? (
+                              <div className="sub-results">
+                                {result.code_matches.map(
+                                  (match: { line: number; text: string }) => (
+                                    <div key={match.line}>
+                                      <code className="text-light">
+                                        {match.line}:
+                                      </code>{" "}
+                                      <code
+                                        dangerouslySetInnerHTML={{
+                                          __html: highlight(
+                                            _.escape(match.text)
+                                          ),
+                                        }}
+                                      />
+                                    </div>
+                                  )
+                                )}
+                              </div>
+                            ) : null}
                             <div className="sub-results">
                               {result.model.tags.length ? (
                                 <>
@@ -531,3 +398,60 @@ export function SearchResults({
     </div>
   );
 }
+
+const facetValueLimit = 10;
+
+function SearchFacet({
+  title,
+  values,
+  isSelected,
+  onToggle,
+}: {
+  title: string;
+  values: { value: string; count?: number | string }[];
+  isSelected: (value: string) => boolean;
+  onToggle: (value: string) => void;
+}) {
+  const [expanded, setExpanded] = React.useState(false);
+  // Selected values stay visible even when the list is collapsed
+  const shown = expanded
+    ? values
+    : _.filter(
+        values,
+        ({ value }, index) => index < facetValueLimit || isSelected(value)
+      );
+
+  return (
+    <div style={{ marginBottom: "20px" }}>
+      <h6>{title}</h6>
+      <ul className="list-unstyled">
+        {shown.map(({ value, count }) => (
+          <li key={value}>
+            <label
+              style={{ fontWeight: "normal", cursor: "pointer", margin: 0 }}
+            >
+              <input
+                type="checkbox"
+                checked={isSelected(value)}
+                onChange={() => onToggle(value)}
+                style={{ marginRight: "5px" }}
+              />
+              {value}
+              {count !== undefined ? (
+                <small className="text-light"> {count}</small>
+              ) : null}
+            </label>
+          </li>
+        ))}
+      </ul>
+      {values.length > facetValueLimit ? (
+        <a
+          style={{ cursor: "pointer" }}
+          onClick={() => setExpanded((expanded) => !expanded)}
+        >
+          {expanded ? "Show less" : `Show all ${values.length}`}
+        </a>
+      ) : null}
+    </div>
+  );
+}
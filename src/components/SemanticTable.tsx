@@ -0,0 +1,45 @@
+import React from "react";
+
+export type SemanticColumn = {
+  title: string;
+  render: (row: any) => React.ReactNode;
+};
+
+// Entities, dimensions, measures and other definition lists of the semantic
+// layer pages
+export function SemanticTable({
+  columns,
+  rows,
+  rowId,
+}: {
+  columns: SemanticColumn[];
+  rows: any[];
+  rowId?: (row: any) => string;
+}) {
+  return (
+    <div className="panel">
+      <div className="panel-body">
+        <div className="table-responsive">
+          <table className="table table-borderless table-hover">
+            <thead>
+              <tr>
+                {columns.map((column) => (
+                  <th key={column.title}>{column.title}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, index) => (
+                <tr key={index} id={rowId ? rowId(row) : undefined}>
+                  {columns.map((column) => (
+                    <td key={column.title}>{column.render(row)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
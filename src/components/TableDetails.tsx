@@ -3,7 +3,29 @@ import "server-only";
 
 import _ from "underscore";
 import React from "react";
+import Link from "next/link";
 import * as projectService from "@/app/projectService";
+import { getCrossProjectRefs } from "@/util/dagUtils";
+import { getNodeUrl } from "@/util/nodeUrl";
+import { getGroupId, getGroupUrl } from "@/util/groups";
+import { getVersionLabel } from "@/util/modelVersions";
+import { Owner } from "@/schemas/model";
+import {
+  formatBytes,
+  formatDuration,
+  timedResourceTypes,
+} from "@/util/runTiming";
+import {
+  getModelTestCoverage,
+  getModelTests,
+  matrixTestTypes,
+  testedResourceTypes,
+} from "@/util/testCoverage";
+import {
+  TestStatusBadge,
+  describeResult,
+  statusSeverity,
+} from "./TestStatusBadge";
 
 export const TableDetails = ({
   model,
@@ -28,6 +50,8 @@ export const TableDetails = ({
   const meta = model.meta || sources_meta;
 
   let details = getBaseStats(model);
+  const lastRun = getLastRunStats(model);
+  const testCoverage = getTestCoverageStats(model);
 
   if (extras) {
     var extrasToAdd = _.filter(extras, function (extra) {
@@ -98,6 +122,36 @@ export const TableDetails = ({
                   ))}
                 </div>
               </div>
+              {lastRun.length ? (
+                <div className="detail-group">
+                  <div className="detail-body">
+                    <dl className="detail">
+                      <dt className="detail-label">Last run</dt>
+                      <dd className="detail-value">
+                        <TestStatusBadge status={model.run_result.status} />
+                      </dd>
+                    </dl>
+                    {lastRun.map((item) => (
+                      <dl className="detail" key={item.name}>
+                        <dt className="detail-label">{item.name}</dt>
+                        <dd className="detail-value">{item.value}</dd>
+                      </dl>
+                    ))}
+                  </div>
+                </div>
+              ) : null}
+              {testCoverage.length ? (
+                <div className="detail-group">
+                  <div className="detail-body">
+                    {testCoverage.map((item) => (
+                      <dl className="detail" key={item.name}>
+                        <dt className="detail-label">{item.name}</dt>
+                        <dd className="detail-value">{item.value}</dd>
+                      </dl>
+                    ))}
+                  </div>
+                </div>
+              ) : null}
               {hasData(extended) ? (
                 <div className="detail-group">
                   <div className="detail-body">
@@ -166,8 +220,17 @@ function translateRelationType(type: string) {
   }
 }
 
+// Groups that are missing from the manifest, or have no owner, are reported
+// on the health page instead of breaking the model page
 function retrieveOwner(group: any) {
-  const { name, email } = projectService.project.groups[group].owner;
+  const owner: Owner | undefined = _.get(projectService.project.groups, [
+    group,
+    "owner",
+  ]);
+  if (!owner) {
+    return undefined;
+  }
+  const { name, email } = owner;
   const result = [];
   if (name) result.push(name);
   if (email) {
@@ -178,7 +241,10 @@ function retrieveOwner(group: any) {
 }
 
 function getBaseStats(model: any) {
-  var is_ephemeral = !model.metadata;
+  // Without a catalog no node has metadata, so fall back to the config
+  var is_ephemeral = projectService.project.catalog_missing
+    ? _.property(["config", "materialized"])(model) == "ephemeral"
+    : !model.metadata;
   var metadata = model.metadata || {};
 
   var database;
@@ -189,7 +255,8 @@ function getBaseStats(model: any) {
   }
 
   var relation;
-  if (is_ephemeral) {
+  // metrics and the semantic layer have no relation of their own
+  if (is_ephemeral || !model.schema) {
     relation = undefined;
   } else if (model.resource_type == "source") {
     relation = database + model.schema + "." + model.identifier;
@@ -197,20 +264,31 @@ function getBaseStats(model: any) {
     relation = database + model.schema + "." + model.alias;
   }
 
-  const owner_identifier = model.group
-    ? retrieveOwner(`group.${model.package_name}.${model.group}`)
-    : metadata.owner;
+  const group_id = getGroupId(model);
+  const group: any = group_id
+    ? _.property([group_id])(projectService.project.groups)
+    : undefined;
+  const owner_identifier = group_id ? retrieveOwner(group_id) : metadata.owner;
 
   var stats = [
     {
       name: "Owner",
       value: owner_identifier,
     },
+    {
+      name: "Group",
+      value: group ? (
+        <Link href={getGroupUrl(group)}>{group.name}</Link>
+      ) : (
+        model.group
+      ),
+    },
     {
       name: "Type",
-      value: is_ephemeral
-        ? undefined
-        : translateRelationType(metadata.type).name,
+      value:
+        is_ephemeral || !metadata.type
+          ? undefined
+          : translateRelationType(metadata.type).name,
     },
     {
       name: "Package",
@@ -224,13 +302,29 @@ function getBaseStats(model: any) {
       name: "Relation",
       value: relation,
     },
+    {
+      name: "Tests",
+      value: getTestHealth(model),
+    },
+    {
+      name: "Project",
+      value:
+        projectService.project.projects.length > 1
+          ? model.project_name
+          : undefined,
+    },
     {
       name: "Access",
-      value: model.access,
+      value: model.access ? describeAccess(model) : undefined,
     },
     {
       name: "Version",
-      value: model.version,
+      value:
+        model.version == null
+          ? undefined
+          : getVersionLabel(model)
+          ? `${model.version} (${getVersionLabel(model)})`
+          : model.version,
     },
   ];
 
@@ -239,6 +333,163 @@ function getBaseStats(model: any) {
   });
 }
 
+// Timing of the newest run of a model, seed or snapshot in run_results.json
+function getLastRunStats(model: any) {
+  const result = model.run_result;
+  if (!result || !_.contains(timedResourceTypes, model.resource_type)) {
+    return [];
+  }
+  var stats = [
+    {
+      name: "Completed",
+      value: result.completed_at,
+    },
+    {
+      name: "Execution time",
+      value: formatDuration(result.execution_time),
+    },
+    {
+      name: "Compile",
+      value: formatDuration(result.compile_time),
+    },
+    {
+      name: "Execute",
+      value: formatDuration(result.execute_time),
+    },
+    {
+      name: "Rows affected",
+      value: result.rows_affected,
+    },
+    {
+      name: "Bytes processed",
+      value: formatBytes(result.bytes_processed),
+    },
+    // the last ten runs, when a run history is loaded (DBT_RUN_HISTORY_PATH)
+    {
+      name: "History",
+      value:
+        model.run_results.length > 1 ? (
+          <span>
+            {_.first(model.run_results, 10).map((run: any, index: number) => (
+              <TestStatusBadge
+                key={index}
+                status={run.status}
+                title={`${run.completed_at}: ${formatDuration(
+                  run.execution_time
+                )}`}
+              >
+                {formatDuration(run.execution_time)}
+              </TestStatusBadge>
+            ))}
+          </span>
+        ) : undefined,
+    },
+  ];
+  return _.filter(stats, function (s) {
+    return s.value !== undefined && s.value !== null;
+  });
+}
+
+// Which columns are covered by the common generic tests, whether a primary
+// key is tested and which singular tests check the model
+function getTestCoverageStats(model: any) {
+  if (!_.contains(testedResourceTypes, model.resource_type)) {
+    return [];
+  }
+  const coverage = getModelTestCoverage(
+    model,
+    getModelTests(projectService.project, model)
+  );
+
+  var stats = [
+    {
+      name: "Tested columns",
+      value: coverage.columns.length
+        ? `${coverage.tested_columns} of ${coverage.columns.length}`
+        : undefined,
+    },
+    ..._.map(matrixTestTypes, (type) => ({
+      name: type.label,
+      value: _.filter(coverage.columns, (column) =>
+        _.contains(column.types, type.short)
+      ).length,
+    })),
+    {
+      name: "Primary key test",
+      value: coverage.primary_key ? (
+        coverage.primary_key.join(", ")
+      ) : (
+        <TestStatusBadge status="warn">missing</TestStatusBadge>
+      ),
+    },
+    {
+      name: "Singular tests",
+      value: coverage.singular_tests.length ? (
+        <span>
+          {coverage.singular_tests.map((test: any, index: number) => (
+            <span key={test.unique_id}>
+              {index ? ", " : null}
+              <Link href={getNodeUrl(test)}>{test.name}</Link>
+            </span>
+          ))}
+        </span>
+      ) : undefined,
+    },
+  ];
+
+  return _.filter(stats, function (s) {
+    return s.value !== undefined && s.value !== 0;
+  });
+}
+
+// Summary of the last results of the tests on a model, e.g. "12 pass 1 fail"
+function getTestHealth(model: any) {
+  const tests = _.filter(
+    getModelTests(projectService.project, model),
+    (node: any) => node.run_result
+  );
+  if (!tests.length) {
+    return undefined;
+  }
+  const byStatus = _.groupBy(tests, (test: any) => test.run_result.status);
+  return (
+    <span>
+      {_.sortBy(_.keys(byStatus), (status) =>
+        statusSeverity.indexOf(status)
+      ).map((status) => (
+        <TestStatusBadge
+          key={status}
+          status={status}
+          title={byStatus[status]
+            .map(
+              (test: any) => `${test.name}: ${describeResult(test.run_result)}`
+            )
+            .join("\n")}
+        >
+          {byStatus[status].length} {status}
+        </TestStatusBadge>
+      ))}
+    </span>
+  );
+}
+
+// Flags refs from other projects of a dbt mesh that the access level of the
+// model does not allow.
+function describeAccess(model: any) {
+  const { downstream } = getCrossProjectRefs(
+    projectService.project,
+    projectService.project.nodes,
+    model
+  );
+  const denied = _.filter(downstream, (ref: any) => !ref.allowed);
+  if (!denied.length) {
+    return model.access;
+  }
+  return `${model.access} (referenced from ${_.uniq(
+    _.map(denied, (ref: any) => ref.node.project_name)
+  ).join(", ")} without access)`;
+}
+
 function getExtendedStats(stats: any) {
   var format: any = {
     rows: asNumber, // Redshift
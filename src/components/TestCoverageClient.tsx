@@ -0,0 +1,185 @@
+"use client";
+import React from "react";
+import _ from "underscore";
+import Link from "next/link";
+import { matrixTestTypes } from "@/util/testCoverage";
+import { TestStatusBadge } from "./TestStatusBadge";
+
+export type TestCoverageRow = {
+  unique_id: string;
+  name: string;
+  url: string;
+  package_name: string;
+  resource_type: string;
+  primary_key: string[] | null;
+  columns: { name: string; types: string[] }[];
+  singular_tests: { name: string; url: string }[];
+};
+
+function matchesText(row: TestCoverageRow, text: string) {
+  const needle = text.trim().toLowerCase();
+  return (
+    !needle ||
+    row.name.toLowerCase().indexOf(needle) != -1 ||
+    _.some(
+      row.columns,
+      (column) => column.name.toLowerCase().indexOf(needle) != -1
+    )
+  );
+}
+
+export const TestCoverageClient = ({ rows }: { rows: TestCoverageRow[] }) => {
+  const [text, setText] = React.useState("");
+  const [packageName, setPackageName] = React.useState("");
+  const [missing, setMissing] = React.useState("");
+  const [withoutKey, setWithoutKey] = React.useState(false);
+
+  const packages = _.uniq(_.pluck(rows, "package_name")).sort();
+
+  // a missing test type only keeps the columns without it
+  const visible = _.compact(
+    _.map(rows, (row) => {
+      if (
+        (packageName && row.package_name != packageName) ||
+        (withoutKey && row.primary_key) ||
+        !matchesText(row, text)
+      ) {
+        return null;
+      }
+      if (!missing) {
+        return row;
+      }
+      const columns = _.filter(
+        row.columns,
+        (column) => !_.contains(column.types, missing)
+      );
+      return columns.length ? { ...row, columns: columns } : null;
+    })
+  );
+
+  return (
+    <div className="panel">
+      <div className="panel-body">
+        <div style={{ display: "flex", gap: "8px", marginBottom: "16px" }}>
+          <input
+            className="form-control"
+            type="search"
+            placeholder="Filter models and columns"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+          />
+          {packages.length > 1 ? (
+            <select
+              className="form-control"
+              value={packageName}
+              onChange={(e) => setPackageName(e.target.value)}
+              title="Package"
+            >
+              <option value="">All packages</option>
+              {packages.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          ) : null}
+          <select
+            className="form-control"
+            value={missing}
+            onChange={(e) => setMissing(e.target.value)}
+            title="Only columns without this test"
+          >
+            <option value="">All columns</option>
+            {matrixTestTypes.map((type) => (
+              <option key={type.short} value={type.short}>
+                Without {type.label}
+              </option>
+            ))}
+          </select>
+          <label style={{ whiteSpace: "nowrap", fontWeight: "normal" }}>
+            <input
+              type="checkbox"
+              checked={withoutKey}
+              onChange={(e) => setWithoutKey(e.target.checked)}
+            />{" "}
+            No primary key test
+          </label>
+        </div>
+        {visible.length ? (
+          <div className="table-responsive">
+            <table className="table table-borderless table-hover">
+              <thead>
+                <tr>
+                  <th>Model</th>
+                  <th>Column</th>
+                  {matrixTestTypes.map((type) => (
+                    <th
+                      key={type.short}
+                      title={type.label}
+                      className="text-center"
+                    >
+                      {type.short}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((row) => (
+                  <React.Fragment key={row.unique_id}>
+                    <tr>
+                      <td colSpan={2 + matrixTestTypes.length}>
+                        <Link href={row.url}>
+                          <strong>{row.name}</strong>
+                        </Link>{" "}
+                        <small className="text-light">
+                          {row.resource_type}
+                        </small>{" "}
+                        {row.primary_key ? null : (
+                          <TestStatusBadge status="warn">
+                            no primary key test
+                          </TestStatusBadge>
+                        )}
+                        {row.singular_tests.length ? (
+                          <div>
+                            <small>
+                              Singular tests:{" "}
+                              {row.singular_tests.map((test, index) => (
+                                <span key={test.url}>
+                                  {index ? ", " : null}
+                                  <Link href={test.url}>{test.name}</Link>
+                                </span>
+                              ))}
+                            </small>
+                          </div>
+                        ) : null}
+                      </td>
+                    </tr>
+                    {row.columns.map((column) => (
+                      <tr key={column.name}>
+                        <td />
+                        <td>
+                          <code>{column.name}</code>
+                        </td>
+                        {matrixTestTypes.map((type) => (
+                          <td key={type.short} className="text-center">
+                            {_.contains(column.types, type.short) ? (
+                              <span title={type.label}>&#10003;</span>
+                            ) : (
+                              <span className="text-light">-</span>
+                            )}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div>No models match the filters.</div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React from "react";
+
+// Colours for the statuses found in run_results.json and sources.json
+export const statusColors: Record<string, string> = {
+  pass: "#5fb825",
+  success: "#5fb825",
+  warn: "#f0ad4e",
+  fail: "#d9534f",
+  error: "#d9534f",
+  "runtime error": "#d9534f",
+  skipped: "#8b969e",
+};
+
+// Most severe first, used to summarise several results with one status
+export const statusSeverity = [
+  "runtime error",
+  "error",
+  "fail",
+  "warn",
+  "skipped",
+  "pass",
+  "success",
+];
+
+export function worstStatus(results: any[]) {
+  const statuses = results.map((result) => result && result.status);
+  return statusSeverity.find((status) => statuses.indexOf(status) != -1);
+}
+
+export function describeResult(result: any) {
+  if (!result) {
+    return "not run";
+  }
+  const parts = [result.status];
+  if (result.failures) {
+    parts.push(
+      `${result.failures} failing row${result.failures == 1 ? "" : "s"}`
+    );
+  }
+  if (result.execution_time != null) {
+    parts.push(`${result.execution_time.toFixed(2)}s`);
+  }
+  return parts.join(", ");
+}
+
+export function TestStatusBadge({
+  status,
+  title,
+  children,
+}: {
+  status?: string;
+  title?: string;
+  children?: React.ReactNode;
+}) {
+  if (!status) {
+    return <span title={title}>{children}</span>;
+  }
+  return (
+    <span
+      className="label"
+      title={title || status}
+      style={{
+        backgroundColor: statusColors[status] || statusColors.skipped,
+        color: "white",
+        marginRight: "2px",
+      }}
+    >
+      {children || status}
+    </span>
+  );
+}
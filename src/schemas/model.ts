@@ -0,0 +1,207 @@
+// Internal model of a dbt manifest. Every supported manifest version (see
+// normalize.ts) is converted into these shapes when the project is loaded, so
+// pages can rely on the fields below regardless of the dbt version that wrote
+// the artifacts. Fields that only exist in newer versions stay optional, and
+// the index signatures keep everything else dbt writes reachable.
+
+export type ResourceType =
+  | "model"
+  | "analysis"
+  | "test"
+  | "snapshot"
+  | "operation"
+  | "seed"
+  | "rpc"
+  | "sql_operation"
+  | "doc"
+  | "source"
+  | "macro"
+  | "exposure"
+  | "metric"
+  | "group"
+  | "semantic_model"
+  | "saved_query"
+  | "unit_test";
+
+export type Access = "private" | "protected" | "public";
+
+export type DependsOn = {
+  nodes: string[];
+  macros: string[];
+};
+
+// `ref()` calls; manifests before v10 stored these as `[package?, name]`.
+export type Ref = {
+  name: string;
+  package: string | null;
+  version: string | number | null;
+};
+
+export type Docs = {
+  show: boolean;
+  node_color?: string | null;
+};
+
+export type Owner = {
+  name?: string | null;
+  email?: string | null;
+};
+
+export type ColumnInfo = {
+  name: string;
+  description: string;
+  meta: Record<string, any>;
+  data_type?: string | null;
+  constraints?: any[];
+  tags: string[];
+  [key: string]: any;
+};
+
+export type NodeConfig = {
+  enabled: boolean;
+  materialized?: string;
+  tags?: string[] | string;
+  meta?: Record<string, any>;
+  access?: Access;
+  group?: string | null;
+  contract?: { enforced: boolean; [key: string]: any };
+  [key: string]: any;
+};
+
+type BaseResource = {
+  unique_id: string;
+  resource_type: ResourceType;
+  name: string;
+  package_name: string;
+  path: string;
+  original_file_path: string;
+  description: string;
+  // set when the project is loaded, see projectService
+  label?: string;
+  project_name?: string;
+  [key: string]: any;
+};
+
+export type ManifestNode = BaseResource & {
+  fqn: string[];
+  tags: string[];
+  meta: Record<string, any>;
+  config: NodeConfig;
+  docs: Docs;
+  columns: Record<string, ColumnInfo>;
+  depends_on: DependsOn;
+  refs: Ref[];
+  sources: string[][];
+  database?: string | null;
+  schema: string;
+  alias?: string;
+  raw_code: string;
+  compiled_code?: string | null;
+  language: "sql" | "python";
+  access?: Access;
+  group?: string | null;
+  version?: string | number | null;
+  latest_version?: string | number | null;
+  deprecation_date?: string | null;
+  constraints?: any[];
+  contract?: { enforced: boolean; [key: string]: any };
+  test_metadata?: {
+    name: string;
+    namespace?: string | null;
+    kwargs: Record<string, any>;
+  };
+  column_name?: string | null;
+};
+
+export type ManifestSource = BaseResource & {
+  resource_type: "source";
+  source_name: string;
+  source_description: string;
+  fqn: string[];
+  tags: string[];
+  meta: Record<string, any>;
+  source_meta: Record<string, any>;
+  config: NodeConfig;
+  columns: Record<string, ColumnInfo>;
+  database?: string | null;
+  schema: string;
+  identifier: string;
+  loaded_at_field?: string | null;
+  freshness?: Record<string, any> | null;
+};
+
+export type ManifestMacro = BaseResource & {
+  resource_type: "macro";
+  macro_sql: string;
+  depends_on: { macros: string[] };
+  docs: Docs;
+  arguments: { name: string; type?: string | null; description: string }[];
+};
+
+export type ManifestDoc = BaseResource & {
+  block_contents: string;
+};
+
+export type ManifestExposure = BaseResource & {
+  resource_type: "exposure";
+  type: string;
+  owner: Owner;
+  label: string;
+  maturity?: string | null;
+  url?: string | null;
+  fqn: string[];
+  tags: string[];
+  meta: Record<string, any>;
+  depends_on: DependsOn;
+  refs: Ref[];
+};
+
+export type ManifestMetric = BaseResource & {
+  resource_type: "metric";
+  label: string;
+  // MetricFlow type from v10, older manifests are mapped onto it
+  type: string;
+  type_params?: Record<string, any>;
+  calculation_method?: string;
+  expression?: string;
+  fqn: string[];
+  tags: string[];
+  meta: Record<string, any>;
+  depends_on: DependsOn;
+  refs: Ref[];
+};
+
+export type ManifestGroup = BaseResource & {
+  resource_type: "group";
+  owner: Owner;
+};
+
+export type ManifestMetadata = {
+  dbt_schema_version: string;
+  dbt_version?: string;
+  generated_at?: string;
+  adapter_type?: string;
+  project_name?: string;
+  [key: string]: any;
+};
+
+export type Manifest = {
+  metadata: ManifestMetadata;
+  // the manifest schema version the artifact was written with, e.g. 12
+  schema_version: number;
+  nodes: Record<string, ManifestNode>;
+  sources: Record<string, ManifestSource>;
+  macros: Record<string, ManifestMacro>;
+  docs: Record<string, ManifestDoc>;
+  exposures: Record<string, ManifestExposure>;
+  metrics: Record<string, ManifestMetric>;
+  groups: Record<string, ManifestGroup>;
+  semantic_models: Record<string, any>;
+  saved_queries: Record<string, any>;
+  unit_tests: Record<string, any>;
+  selectors: Record<string, any>;
+  disabled: Record<string, any[]>;
+  parent_map?: Record<string, string[]>;
+  child_map?: Record<string, string[]>;
+  [key: string]: any;
+};
@@ -0,0 +1,192 @@
+import _ from "lodash";
+import { Manifest, Ref } from "./model";
+
+// Converts manifests written by dbt 1.0 (v4) through dbt 1.8+ (v12) into the
+// internal model in model.ts. Each upgrade step brings a manifest from the
+// version before `version` up to it; steps run in order, so a v4 manifest goes
+// through all of them.
+
+export const minManifestVersion = 4;
+export const maxManifestVersion = 12;
+
+export class UnsupportedManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedManifestError";
+  }
+}
+
+const versionPattern = /\/manifest\/v(\d+)\.json$/;
+
+export function getManifestVersion(manifest: any): number {
+  const schemaVersion = _.get(manifest, ["metadata", "dbt_schema_version"]);
+  const match = versionPattern.exec(schemaVersion || "");
+  if (!match) {
+    throw new UnsupportedManifestError(
+      `Cannot detect the manifest version from metadata.dbt_schema_version ${JSON.stringify(
+        schemaVersion
+      )}`
+    );
+  }
+  return Number(match[1]);
+}
+
+function eachNode(manifest: any, cb: (node: any) => void) {
+  _.each(manifest.nodes, cb);
+  _.each(_.flatten(_.values(manifest.disabled)), cb);
+}
+
+// Before v10 refs were `[name]` or `[package, name]`, with an optional
+// trailing version once model versions arrived in v9.
+function normalizeRef(ref: any): Ref {
+  if (!Array.isArray(ref)) {
+    return {
+      name: ref.name,
+      package: ref.package ?? null,
+      version: ref.version ?? null,
+    };
+  }
+  return ref.length == 1
+    ? { name: ref[0], package: null, version: null }
+    : { name: ref[1], package: ref[0], version: ref[2] ?? null };
+}
+
+const upgrades: { version: number; upgrade: (manifest: any) => void }[] = [
+  {
+    // dbt 1.3 renamed raw_sql/compiled_sql to support python models, and
+    // renamed the metric sql/type fields
+    version: 7,
+    upgrade: (manifest) => {
+      eachNode(manifest, (node) => {
+        if (node.raw_code === undefined) {
+          node.raw_code = node.raw_sql;
+        }
+        if (node.compiled_code === undefined) {
+          node.compiled_code = node.compiled_sql;
+        }
+        node.language = node.language || "sql";
+      });
+      _.each(manifest.metrics, (metric) => {
+        metric.expression = metric.expression ?? metric.sql;
+        metric.calculation_method = metric.calculation_method ?? metric.type;
+      });
+    },
+  },
+  {
+    // dbt 1.5 added groups, model access, versions and contracts
+    version: 9,
+    upgrade: (manifest) => {
+      manifest.groups = manifest.groups || {};
+      eachNode(manifest, (node) => {
+        if (node.resource_type == "model") {
+          node.group = node.group ?? null;
+          node.version = node.version ?? null;
+          node.latest_version = node.latest_version ?? null;
+          node.constraints = node.constraints || [];
+        }
+      });
+    },
+  },
+  {
+    // dbt 1.6 turned refs into objects and moved metrics to MetricFlow
+    version: 10,
+    upgrade: (manifest) => {
+      _.each(
+        [manifest.nodes, manifest.exposures, manifest.metrics],
+        (resources) =>
+          _.each(resources, (resource: any) => {
+            resource.refs = _.map(resource.refs || [], normalizeRef);
+          })
+      );
+      _.each(manifest.metrics, (metric) => {
+        if (!metric.type_params) {
+          metric.type =
+            metric.calculation_method == "derived" ? "derived" : "simple";
+        }
+      });
+      manifest.semantic_models = manifest.semantic_models || {};
+    },
+  },
+  {
+    // dbt 1.7 added saved queries
+    version: 11,
+    upgrade: (manifest) => {
+      manifest.saved_queries = manifest.saved_queries || {};
+    },
+  },
+  {
+    // dbt 1.8 added unit tests
+    version: 12,
+    upgrade: (manifest) => {
+      manifest.unit_tests = manifest.unit_tests || {};
+    },
+  },
+];
+
+// Defaults every version is missing for some resources
+function fillDefaults(manifest: any) {
+  _.each(
+    [
+      "nodes",
+      "sources",
+      "macros",
+      "docs",
+      "exposures",
+      "metrics",
+      "groups",
+      "selectors",
+      "disabled",
+    ],
+    (key) => {
+      manifest[key] = manifest[key] || {};
+    }
+  );
+  eachNode(manifest, (node) => {
+    node.docs = node.docs || { show: true };
+    node.tags = node.tags || [];
+    node.meta = node.meta || {};
+    node.columns = node.columns || {};
+    node.config = node.config || { enabled: true };
+    node.depends_on = _.defaults(node.depends_on, { nodes: [], macros: [] });
+    node.refs = node.refs || [];
+    node.raw_code = node.raw_code || "";
+    node.language = node.language || "sql";
+  });
+  _.each(manifest.sources, (source) => {
+    source.tags = source.tags || [];
+    source.meta = source.meta || {};
+    source.source_meta = source.source_meta || {};
+    source.columns = source.columns || {};
+  });
+  _.each(manifest.macros, (macro) => {
+    macro.docs = macro.docs || { show: true };
+    macro.arguments = macro.arguments || [];
+  });
+  _.each(manifest.exposures, (exposure) => {
+    exposure.label = exposure.label || exposure.name;
+    exposure.owner = exposure.owner || {};
+  });
+  _.each(manifest.metrics, (metric) => {
+    metric.label = metric.label || metric.name;
+  });
+}
+
+// Upgrades a manifest in place to the internal model. Throws an
+// UnsupportedManifestError for versions this site does not know how to read.
+export function normalizeManifest(manifest: any): Manifest {
+  const version = getManifestVersion(manifest);
+  if (version < minManifestVersion || version > maxManifestVersion) {
+    throw new UnsupportedManifestError(
+      `Manifest schema v${version} is not supported, only v${minManifestVersion} to v${maxManifestVersion} (dbt 1.0 and later) can be read`
+    );
+  }
+
+  _.each(upgrades, (step) => {
+    if (version < step.version) {
+      step.upgrade(manifest);
+    }
+  });
+  fillDefaults(manifest);
+  manifest.schema_version = version;
+  return manifest;
+}
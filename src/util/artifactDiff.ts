@@ -0,0 +1,210 @@
+import _ from "lodash";
+import { getShortID } from "./nodeUrl";
+import { ColumnChange, diffVersionColumns } from "./modelVersions";
+
+// Compares the project with a baseline build of it, e.g. the production
+// artifacts when documenting a pull request. Tests are not listed on their
+// own but as a change to the nodes they test.
+
+// Resources compared with the baseline, tests and macros are left out
+export const diffResourceTypes = [
+  "model",
+  "seed",
+  "snapshot",
+  "analysis",
+  "source",
+  "exposure",
+  "metric",
+  "semantic_model",
+  "saved_query",
+];
+
+export type ChangeStatus = "added" | "removed" | "modified";
+
+export type TestChange = {
+  name: string;
+  change: ChangeStatus;
+};
+
+export type NodeChange = {
+  unique_id: string;
+  resource_type: string;
+  name: string;
+  status: ChangeStatus;
+  code: boolean;
+  description: boolean;
+  columns: ColumnChange[];
+  // columns whose description changed
+  column_descriptions: string[];
+  tests: TestChange[];
+  // the baseline's raw code, for the side-by-side diff
+  baseline_code?: string;
+};
+
+export type ArtifactChanges = {
+  baseline_generated_at?: string;
+  summary: Record<ChangeStatus, number>;
+  nodes: NodeChange[];
+};
+
+function testSignature(test: any) {
+  return JSON.stringify([
+    _.get(test, ["checksum", "checksum"]),
+    test.raw_code,
+    _.get(test, ["test_metadata", "kwargs"]),
+    _.get(test, ["config", "severity"]),
+  ]);
+}
+
+// Tests of every node, keyed by the tested node's unique_id
+export function getTestsByNode(nodes: any) {
+  const tests: Record<string, any[]> = {};
+  _.each(nodes, (test: any) => {
+    if (test.resource_type != "test") {
+      return;
+    }
+    _.each(_.get(test, ["depends_on", "nodes"]), (id: string) => {
+      const key = getShortID(id);
+      (tests[key] = tests[key] || []).push(test);
+    });
+  });
+  return tests;
+}
+
+function diffTests(before: any[], after: any[]): TestChange[] {
+  const old = _.keyBy(before, "unique_id");
+  const current = _.keyBy(after, "unique_id");
+  const changes = _.concat<TestChange>(
+    _.map(_.difference(_.keys(current), _.keys(old)), (id) => ({
+      name: current[id].name,
+      change: "added" as const,
+    })),
+    _.map(_.difference(_.keys(old), _.keys(current)), (id) => ({
+      name: old[id].name,
+      change: "removed" as const,
+    })),
+    _.compact(
+      _.map(_.intersection(_.keys(old), _.keys(current)), (id) =>
+        testSignature(old[id]) != testSignature(current[id])
+          ? { name: current[id].name, change: "modified" as const }
+          : null
+      )
+    )
+  );
+  return _.sortBy(changes, "name");
+}
+
+function codeChanged(before: any, after: any) {
+  const checksum = (node: any) => _.get(node, ["checksum", "checksum"]);
+  return (
+    (before.raw_code || "") != (after.raw_code || "") ||
+    checksum(before) != checksum(after)
+  );
+}
+
+function descriptionChanges(before: any, after: any) {
+  const old = _.keyBy(_.values(before.columns), (column: any) =>
+    _.toLower(column.name)
+  );
+  return _.compact(
+    _.map(_.values(after.columns), (column: any) => {
+      const previous = old[_.toLower(column.name)];
+      return previous &&
+        _.trim(previous.description) != _.trim(column.description)
+        ? column.name
+        : null;
+    })
+  );
+}
+
+function emptyChange(node: any, status: ChangeStatus): NodeChange {
+  return {
+    unique_id: node.unique_id,
+    resource_type: node.resource_type,
+    name: node.label || node.name,
+    status: status,
+    code: false,
+    description: false,
+    columns: [],
+    column_descriptions: [],
+    tests: [],
+  };
+}
+
+// Both node maps are keyed by short unique_id, with catalog column types
+// merged into the columns
+export function diffNodes(baseline: any, current: any): NodeChange[] {
+  const compared = (nodes: any) =>
+    _.pickBy(nodes, (node: any) =>
+      _.includes(diffResourceTypes, node.resource_type)
+    );
+  const before = compared(baseline);
+  const after = compared(current);
+  const baselineTests = getTestsByNode(baseline);
+  const currentTests = getTestsByNode(current);
+
+  const added = _.map(_.difference(_.keys(after), _.keys(before)), (id) =>
+    emptyChange(after[id], "added")
+  );
+  const removed = _.map(_.difference(_.keys(before), _.keys(after)), (id) =>
+    emptyChange(before[id], "removed")
+  );
+  const modified = _.compact(
+    _.map(_.intersection(_.keys(before), _.keys(after)), (id) => {
+      const old = before[id];
+      const node = after[id];
+      const change: NodeChange = {
+        ...emptyChange(node, "modified"),
+        code: codeChanged(old, node),
+        description: _.trim(old.description) != _.trim(node.description),
+        columns: diffVersionColumns(old, node),
+        column_descriptions: descriptionChanges(old, node),
+        tests: diffTests(baselineTests[id] || [], currentTests[id] || []),
+      };
+      if (change.code && old.raw_code != null) {
+        change.baseline_code = old.raw_code;
+      }
+      return change.code ||
+        change.description ||
+        change.columns.length ||
+        change.column_descriptions.length ||
+        change.tests.length
+        ? change
+        : null;
+    })
+  );
+
+  return _.sortBy(_.concat(added, removed, modified), [
+    "resource_type",
+    "name",
+  ]);
+}
+
+export function buildChanges(baseline: any, current: any): ArtifactChanges {
+  const nodes = diffNodes(baseline.nodes, current);
+  return {
+    baseline_generated_at: _.get(baseline, ["metadata", "generated_at"]),
+    summary: {
+      added: _.filter(nodes, { status: "added" }).length,
+      removed: _.filter(nodes, { status: "removed" }).length,
+      modified: _.filter(nodes, { status: "modified" }).length,
+    },
+    nodes: nodes,
+  };
+}
+
+// e.g. "code, 2 columns, 1 test"
+export function describeChange(change: NodeChange) {
+  if (change.status != "modified") {
+    return change.status;
+  }
+  const count = (n: number, what: string) =>
+    n ? `${n} ${what}${n == 1 ? "" : "s"}` : null;
+  return _.compact([
+    change.code ? "code" : null,
+    change.description ? "description" : null,
+    count(change.columns.length, "column"),
+    count(change.column_descriptions.length, "column description"),
+    count(change.tests.length, "test"),
+  ]).join(", ");
+}
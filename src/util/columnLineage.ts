@@ -0,0 +1,588 @@
+import { getShortID } from "./nodeUrl";
+
+const _ = require("underscore");
+
+// Column-level lineage derived from a model's compiled SQL. This is a
+// best-effort parser: it understands CTEs, subqueries in FROM, joins, unions,
+// `select *` and column aliases, which covers the shape of most dbt models.
+// Expressions it can't follow simply produce no lineage.
+
+export type ColumnRef = { unique_id: string; column: string };
+
+type Source =
+  | { kind: "node"; unique_id: string }
+  | { kind: "derived"; columns: Record<string, ColumnRef[]> };
+
+const keywords = (
+  "all and any array as asc between both by case cast current current_date " +
+  "current_time current_timestamp date day desc distinct else end escape " +
+  "exists extract false filter first following for from group hour ignore " +
+  "ilike in interval is last like minute month not null nulls on or order " +
+  "over partition preceding qualify quarter range respect rlike row rows " +
+  "second select similar then timestamp to true try_cast unbounded week " +
+  "when where within year"
+).split(" ");
+
+const clauseEnd = [
+  "where",
+  "group by",
+  "having",
+  "qualify",
+  "order by",
+  "limit",
+  "window",
+  "fetch",
+  "offset",
+];
+
+const identifier = '(?:"[^"]+"|`[^`]+`|\\[[^\\]]+\\]|[A-Za-z_][\\w$]*)';
+
+function unquote(name: string) {
+  return name.replace(/^["`[]|["`\]]$/g, "");
+}
+
+function normalize(name: string) {
+  return unquote(name.trim()).toLowerCase();
+}
+
+function stripComments(sql: string) {
+  return sql.replace(/\/\*[\s\S]*?\*\//g, " ").replace(/--[^\n]*/g, " ");
+}
+
+// Replaces the contents of string literals so that commas, parentheses and
+// keywords inside them are never mistaken for SQL structure.
+function maskStrings(sql: string) {
+  return sql.replace(
+    /'(?:[^'\\]|\\.|'')*'/g,
+    (s) => "'" + "_".repeat(s.length - 2) + "'"
+  );
+}
+
+// Calls `visit` for every character at parenthesis depth zero. Returning
+// `false` from `visit` stops the scan.
+function scanTopLevel(sql: string, visit: (i: number) => boolean | void) {
+  let depth = 0;
+  for (let i = 0; i < sql.length; i++) {
+    const ch = sql[i];
+    if (ch == "(") {
+      depth++;
+    } else if (ch == ")") {
+      depth--;
+    } else if (depth == 0 && visit(i) === false) {
+      return;
+    }
+  }
+}
+
+// Matches `pattern` starting exactly at position `i` of `sql`.
+function matchAt(sql: string, pattern: RegExp, i: number) {
+  const sticky = new RegExp(pattern.source, pattern.flags + "y");
+  sticky.lastIndex = i;
+  return sticky.exec(sql);
+}
+
+function splitTopLevel(sql: string, separator: RegExp) {
+  const parts: string[] = [];
+  let last = 0;
+  scanTopLevel(sql, function (i) {
+    if (i < last) {
+      return;
+    }
+    const match = matchAt(sql, separator, i);
+    if (match && isBoundary(sql, i, match[0])) {
+      parts.push(sql.slice(last, i));
+      last = i + match[0].length;
+    }
+  });
+  parts.push(sql.slice(last));
+  return parts;
+}
+
+// Keywords only count when they start a word, so `join` never matches inside
+// `left_join_key`. Punctuation such as `,` always counts.
+function isBoundary(sql: string, i: number, match: string) {
+  return !/^\w/.test(match) || i == 0 || !/[\w$."`]/.test(sql[i - 1]);
+}
+
+function indexOfTopLevel(sql: string, pattern: RegExp, from: number = 0) {
+  let found = -1;
+  scanTopLevel(sql, function (i) {
+    if (i < from) {
+      return;
+    }
+    const match = matchAt(sql, pattern, i);
+    if (match && isBoundary(sql, i, match[0])) {
+      found = i;
+      return false;
+    }
+  });
+  return found;
+}
+
+function matchParen(sql: string, open: number) {
+  let depth = 0;
+  for (let i = open; i < sql.length; i++) {
+    if (sql[i] == "(") {
+      depth++;
+    } else if (sql[i] == ")") {
+      depth--;
+      if (depth == 0) {
+        return i;
+      }
+    }
+  }
+  return sql.length;
+}
+
+function parseWith(sql: string) {
+  const ctes: [string, string][] = [];
+  let rest = sql.trim();
+  const withMatch = rest.match(/^with\s+(recursive\s+)?/i);
+  if (!withMatch) {
+    return { ctes, body: rest };
+  }
+  rest = rest.slice(withMatch[0].length);
+
+  const ctePattern = new RegExp(
+    "^(" +
+      identifier +
+      ")\\s*(\\([^)]*\\))?\\s*as\\s*(?:not\\s+)?(?:materialized\\s*)?\\(",
+    "i"
+  );
+  while (true) {
+    const match = rest.match(ctePattern);
+    if (!match) {
+      break;
+    }
+    const open = match[0].length - 1;
+    const close = matchParen(rest, open);
+    ctes.push([normalize(match[1]), rest.slice(open + 1, close)]);
+    rest = rest.slice(close + 1).trim();
+    if (rest[0] == ",") {
+      rest = rest.slice(1).trim();
+    } else {
+      break;
+    }
+  }
+  return { ctes, body: rest };
+}
+
+function parseRelations(from: string) {
+  const segments = splitTopLevel(
+    from,
+    /(,|(?:natural\s+)?(?:(?:left|right|full|inner|cross)\s+)?(?:outer\s+)?join\b|(?:cross|outer)\s+apply\b)/i
+  );
+
+  return _.compact(
+    _.map(segments, function (segment: string) {
+      let text = segment.trim();
+      const on = indexOfTopLevel(text, /(on|using)\b/i);
+      if (on >= 0) {
+        text = text.slice(0, on).trim();
+      }
+      text = text.replace(/^lateral\s+/i, "");
+      if (!text) {
+        return null;
+      }
+
+      if (text[0] == "(") {
+        const close = matchParen(text, 0);
+        const alias = text
+          .slice(close + 1)
+          .replace(/^\s*as\s+/i, "")
+          .trim();
+        return {
+          subquery: text.slice(1, close),
+          alias: alias ? normalize(alias.split(/\s+/)[0]) : null,
+        };
+      }
+
+      const relationPattern = new RegExp(
+        "^(" +
+          identifier +
+          "(?:\\s*\\.\\s*" +
+          identifier +
+          ")*)(?:\\s+(?:as\\s+)?(" +
+          identifier +
+          "))?",
+        "i"
+      );
+      const match = text.match(relationPattern);
+      if (!match) {
+        return null;
+      }
+      const name = match[1].replace(/\s+/g, "");
+      const alias =
+        match[2] && !_.contains(keywords, match[2].toLowerCase())
+          ? match[2]
+          : null;
+      const parts = name.split(".");
+      return {
+        relation: _.map(parts, normalize).join("."),
+        alias: normalize(alias || parts[parts.length - 1]),
+      };
+    })
+  );
+}
+
+// Returns the column references used by an expression as [qualifier, column]
+// pairs, ignoring functions, keywords, literals and cast target types.
+function expressionRefs(expression: string) {
+  const cleaned = expression
+    .replace(/'_*'/g, " ")
+    .replace(/::\s*[\w]+(\s*\([^)]*\))?/g, " ")
+    .replace(/\bas\s+[\w]+(\s*\([^)]*\))?/gi, " ");
+
+  const refPattern = new RegExp(
+    "(" + identifier + "(?:\\s*\\.\\s*" + identifier + ")*)(\\s*\\()?",
+    "g"
+  );
+  const refs: [string | null, string][] = [];
+  let match;
+  while ((match = refPattern.exec(cleaned))) {
+    const before = cleaned[match.index - 1];
+    if (match[2] || (before && /[\w$.]/.test(before))) {
+      continue;
+    }
+    const parts = match[1].replace(/\s+/g, "").split(".");
+    const column = parts[parts.length - 1];
+    if (parts.length == 1 && _.contains(keywords, column.toLowerCase())) {
+      continue;
+    }
+    if (/^\d/.test(column)) {
+      continue;
+    }
+    refs.push([
+      parts.length > 1 ? normalize(parts[parts.length - 2]) : null,
+      normalize(column),
+    ]);
+  }
+  return refs;
+}
+
+function splitAlias(item: string): [string, string | null] {
+  const asIndex = (() => {
+    let found = -1;
+    scanTopLevel(item, function (i) {
+      const match = matchAt(item, /as\s/i, i);
+      if (match && isBoundary(item, i, match[0])) {
+        found = i;
+      }
+    });
+    return found;
+  })();
+  if (asIndex > 0) {
+    return [item.slice(0, asIndex).trim(), normalize(item.slice(asIndex + 2))];
+  }
+
+  const implicit = item.match(
+    new RegExp('^([\\s\\S]*[\\w)"`\\]])\\s+(' + identifier + ")$")
+  );
+  if (implicit && !_.contains(keywords, implicit[2].toLowerCase())) {
+    return [implicit[1].trim(), normalize(implicit[2])];
+  }
+
+  const simple = item.match(
+    new RegExp("^(?:" + identifier + "\\s*\\.\\s*)*(" + identifier + ")$")
+  );
+  return [item, simple ? normalize(simple[1]) : null];
+}
+
+class LineageParser {
+  constructor(
+    private resolveRelation: (relation: string) => any,
+    private getNode: (unique_id: string) => any
+  ) {}
+
+  parseQuery(sql: string, outer: Record<string, Source> = {}) {
+    const { ctes, body } = parseWith(sql);
+    const scope: Record<string, Source> = _.clone(outer);
+    _.each(ctes, ([name, cteSql]: [string, string]) => {
+      scope["cte:" + name] = {
+        kind: "derived",
+        columns: this.parseQuery(cteSql, scope),
+      };
+    });
+
+    const branches = splitTopLevel(
+      body,
+      /(union(\s+all|\s+distinct)?|intersect|except|minus)\b/i
+    );
+    const columns: Record<string, ColumnRef[]> = {};
+    let names: string[] = [];
+    _.each(branches, (branch: string, branchIndex: number) => {
+      const resolved = this.parseSelect(branch, scope);
+      if (branchIndex == 0) {
+        names = _.keys(resolved);
+        _.extend(columns, resolved);
+      } else {
+        _.each(_.values(resolved), (refs: ColumnRef[], position: number) => {
+          if (names[position]) {
+            columns[names[position]] = columns[names[position]].concat(refs);
+          }
+        });
+      }
+    });
+    return columns;
+  }
+
+  parseSelect(sql: string, outer: Record<string, Source>) {
+    let text = sql.trim();
+    while (text[0] == "(" && matchParen(text, 0) == text.length - 1) {
+      text = text.slice(1, -1).trim();
+    }
+    if (/^with\s/i.test(text)) {
+      return this.parseQuery(text, outer);
+    }
+
+    const selectIndex = indexOfTopLevel(text, /select\b/i);
+    if (selectIndex < 0) {
+      return {};
+    }
+    const fromIndex = indexOfTopLevel(text, /from\b/i, selectIndex);
+    const selectList = text
+      .slice(selectIndex + 6, fromIndex < 0 ? text.length : fromIndex)
+      .replace(/^\s*(distinct|all)\b/i, "")
+      .replace(/^\s*top\s+\d+/i, "");
+
+    let fromClause = fromIndex < 0 ? "" : text.slice(fromIndex + 4);
+    _.each(clauseEnd, function (clause: string) {
+      const end = indexOfTopLevel(
+        fromClause,
+        new RegExp(clause.replace(" ", "\\s+") + "\\b", "i")
+      );
+      if (end >= 0) {
+        fromClause = fromClause.slice(0, end);
+      }
+    });
+
+    const sources: Record<string, Source> = {};
+    _.each(parseRelations(fromClause), (relation: any) => {
+      if (relation.subquery !== undefined) {
+        const columns = this.parseQuery(relation.subquery, outer);
+        sources[relation.alias || "subquery"] = { kind: "derived", columns };
+      } else if (outer["cte:" + relation.relation]) {
+        sources[relation.alias] = outer["cte:" + relation.relation];
+      } else {
+        const node = this.resolveRelation(relation.relation);
+        if (node) {
+          sources[relation.alias] = { kind: "node", unique_id: node.unique_id };
+        }
+      }
+    });
+
+    const columns: Record<string, ColumnRef[]> = {};
+    _.each(splitTopLevel(selectList, /,/), (rawItem: string) => {
+      const item = rawItem.trim();
+      const star = item.match(
+        new RegExp("^(?:(" + identifier + ")\\s*\\.\\s*)?\\*")
+      );
+      if (star) {
+        const starSources = star[1]
+          ? _.pick(sources, normalize(star[1]))
+          : sources;
+        _.each(starSources, (source: Source) => {
+          _.each(this.sourceColumns(source), (column: string) => {
+            columns[column] = this.resolveRef(source, column);
+          });
+        });
+        return;
+      }
+
+      const [expression, alias] = splitAlias(item);
+      if (!alias) {
+        return;
+      }
+      columns[alias] = _.uniq(
+        _.flatten(
+          _.map(
+            expressionRefs(expression),
+            ([qualifier, column]: [string | null, string]) => {
+              if (qualifier) {
+                return sources[qualifier]
+                  ? this.resolveRef(sources[qualifier], column)
+                  : [];
+              }
+              const candidates = _.filter(_.values(sources), (source: Source) =>
+                _.contains(this.sourceColumns(source), column)
+              );
+              const matched = candidates.length
+                ? candidates
+                : _.size(sources) == 1
+                ? _.values(sources)
+                : [];
+              return _.flatten(
+                _.map(matched, (source: Source) =>
+                  this.resolveRef(source, column)
+                ),
+                true
+              );
+            }
+          ),
+          true
+        ),
+        false,
+        (ref: ColumnRef) => ref.unique_id + "." + ref.column
+      );
+    });
+    return columns;
+  }
+
+  sourceColumns(source: Source): string[] {
+    if (source.kind == "derived") {
+      return _.keys(source.columns);
+    }
+    const node = this.getNode(source.unique_id);
+    return _.map(_.keys((node && node.columns) || {}), normalize);
+  }
+
+  resolveRef(source: Source, column: string): ColumnRef[] {
+    if (source.kind == "derived") {
+      return source.columns[column] || [];
+    }
+    return [{ unique_id: source.unique_id, column: column }];
+  }
+}
+
+// Lower case names a node's relation can be written as, with or without its
+// database and schema
+export function relationKeys(node: any) {
+  const name = node.identifier || node.alias || node.name;
+  const keys = [
+    _.compact([node.database, node.schema, name]).join("."),
+    _.compact([node.schema, name]).join("."),
+    name,
+  ];
+  if (node.relation_name) {
+    keys.unshift(_.map(node.relation_name.split("."), normalize).join("."));
+  }
+  return _.uniq(_.map(keys, (key: string) => key.toLowerCase()));
+}
+
+// Parses a single model's compiled SQL and returns its output columns mapped
+// to the upstream columns they are derived from.
+export function parseColumnLineage(project: any, node: any) {
+  const sql = node.compiled_code;
+  if (!sql || (node.language && node.language != "sql")) {
+    return {};
+  }
+
+  const parents = _.compact(
+    _.map(
+      _.get(node, ["depends_on", "nodes"]) || [],
+      (id: string) => project.nodes[getShortID(id)]
+    )
+  );
+  const byRelation: Record<string, any> = {};
+  _.each(parents, function (parent: any) {
+    _.each(relationKeys(parent), function (key: string) {
+      if (!byRelation[key]) {
+        byRelation[key] = parent;
+      }
+    });
+  });
+
+  const resolveRelation = (relation: string) => {
+    const parts = relation.split(".");
+    for (let i = 0; i < parts.length; i++) {
+      const match = byRelation[parts.slice(i).join(".")];
+      if (match) {
+        return match;
+      }
+    }
+    return null;
+  };
+
+  try {
+    const parser = new LineageParser(
+      resolveRelation,
+      (unique_id) => project.nodes[unique_id]
+    );
+    return parser.parseQuery(
+      maskStrings(stripComments(sql)).replace(/;\s*$/, "")
+    );
+  } catch (e) {
+    return {};
+  }
+}
+
+// Maps a lowercased column name back to the name used in the node's columns,
+// so that lineage links line up with what the column table displays.
+function columnName(node: any, column: string) {
+  const match = _.find(
+    _.keys((node && node.columns) || {}),
+    (name: string) => name.toLowerCase() == column
+  );
+  return match || column;
+}
+
+// Computes upstream column lineage for every SQL model, plus the inverted
+// downstream index. The result is cached on the project.
+export function buildColumnLineage(project: any) {
+  if (project.column_lineage) {
+    return project.column_lineage;
+  }
+
+  const upstream: Record<string, Record<string, ColumnRef[]>> = {};
+  const downstream: Record<string, Record<string, ColumnRef[]>> = {};
+  _.each(project.nodes, function (node: any) {
+    if (node.resource_type != "model" && node.resource_type != "snapshot") {
+      return;
+    }
+    const lineage = parseColumnLineage(project, node);
+    _.each(lineage, function (refs: ColumnRef[], column: string) {
+      const target = columnName(node, column);
+      const resolved = _.map(refs, (ref: ColumnRef) => ({
+        unique_id: ref.unique_id,
+        column: columnName(project.nodes[ref.unique_id], ref.column),
+      }));
+      if (!resolved.length) {
+        return;
+      }
+      upstream[node.unique_id] = upstream[node.unique_id] || {};
+      upstream[node.unique_id][target] = resolved;
+
+      _.each(resolved, function (ref: ColumnRef) {
+        downstream[ref.unique_id] = downstream[ref.unique_id] || {};
+        downstream[ref.unique_id][ref.column] =
+          downstream[ref.unique_id][ref.column] || [];
+        downstream[ref.unique_id][ref.column].push({
+          unique_id: node.unique_id,
+          column: target,
+        });
+      });
+    });
+  });
+
+  project.column_lineage = { upstream, downstream };
+  return project.column_lineage;
+}
+
+// Upstream and downstream columns for each column of a node, keyed by the
+// lowercased column name, with enough of the related nodes to render links.
+export function getColumnLineage(project: any, node: any) {
+  const lineage = buildColumnLineage(project);
+  const describe = (refs: ColumnRef[]) =>
+    _.map(refs, function (ref: ColumnRef) {
+      const related = project.nodes[ref.unique_id];
+      return {
+        unique_id: ref.unique_id,
+        resource_type: related.resource_type,
+        name: related.label || related.name,
+        column: ref.column,
+      };
+    });
+
+  const result: Record<string, { upstream: any[]; downstream: any[] }> = {};
+  _.each(_.keys(node.columns || {}), function (column: string) {
+    const upstream = (lineage.upstream[node.unique_id] || {})[column] || [];
+    const downstream = (lineage.downstream[node.unique_id] || {})[column] || [];
+    if (upstream.length || downstream.length) {
+      result[column.toLowerCase()] = {
+        upstream: describe(upstream),
+        downstream: describe(downstream),
+      };
+    }
+  });
+  return result;
+}
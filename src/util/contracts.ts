@@ -0,0 +1,282 @@
+import _ from "lodash";
+import { relationKeys } from "./columnLineage";
+
+// Model contracts (dbt 1.5 and later): the data types declared on a model's
+// columns and the constraints dbt adds to its DDL. A contract is only checked
+// by dbt when `config.contract.enforced` is set.
+
+// Constraints are listed in this order, keys first
+export const constraintTypes = [
+  "primary_key",
+  "foreign_key",
+  "unique",
+  "not_null",
+  "check",
+  "custom",
+];
+
+export type ContractConstraint = {
+  type: string;
+  name?: string;
+  expression?: string;
+  columns: string[];
+  // foreign keys only
+  to?: any;
+  to_columns: string[];
+};
+
+export type ContractColumn = {
+  name: string;
+  declared_type?: string;
+  actual_type?: string;
+  mismatch: boolean;
+  constraints: ContractConstraint[];
+};
+
+export type Contract = {
+  enforced: boolean;
+  columns: ContractColumn[];
+  // constraints declared on the model rather than on one column
+  constraints: ContractConstraint[];
+};
+
+// Spellings that the warehouse reports differently from how they are declared,
+// per adapter. An alias may carry the size the warehouse fills in, e.g. an
+// `int` on Snowflake is reported as `NUMBER(38,0)`.
+const defaultTypeAliases: Record<string, string> = {
+  int: "integer",
+  int4: "integer",
+  int8: "bigint",
+  int2: "smallint",
+  bool: "boolean",
+  varchar: "character varying",
+  char: "character",
+  float8: "double precision",
+  float4: "real",
+  decimal: "numeric",
+  timestamp: "timestamp without time zone",
+  timestamptz: "timestamp with time zone",
+};
+
+const typeAliases: Record<string, Record<string, string>> = {
+  snowflake: {
+    int: "number(38,0)",
+    integer: "number(38,0)",
+    bigint: "number(38,0)",
+    smallint: "number(38,0)",
+    tinyint: "number(38,0)",
+    byteint: "number(38,0)",
+    decimal: "number",
+    numeric: "number",
+    varchar: "text",
+    char: "text",
+    character: "text",
+    "character varying": "text",
+    nchar: "text",
+    nvarchar: "text",
+    nvarchar2: "text",
+    string: "text",
+    float4: "float",
+    float8: "float",
+    double: "float",
+    "double precision": "float",
+    real: "float",
+    bool: "boolean",
+    datetime: "timestamp_ntz",
+    timestamp: "timestamp_ntz",
+    timestampntz: "timestamp_ntz",
+    "timestamp without time zone": "timestamp_ntz",
+    timestampltz: "timestamp_ltz",
+    "timestamp with local time zone": "timestamp_ltz",
+    timestamptz: "timestamp_tz",
+    "timestamp with time zone": "timestamp_tz",
+    varbinary: "binary",
+  },
+  bigquery: {
+    int: "int64",
+    integer: "int64",
+    bigint: "int64",
+    smallint: "int64",
+    tinyint: "int64",
+    byteint: "int64",
+    float: "float64",
+    decimal: "numeric",
+    bigdecimal: "bignumeric",
+    boolean: "bool",
+  },
+};
+
+function parseType(type: string) {
+  const clean = _.toLower(type)
+    .replace(/\s+/g, " ")
+    .replace(/\s*([(),])\s*/g, "$1")
+    .trim();
+  const match = /^([^(]*)(\(.*\))?$/.exec(clean);
+  return {
+    base: match ? match[1] : clean,
+    params: match && match[2] ? match[2] : "",
+  };
+}
+
+function normalizeType(type: string, adapter?: string) {
+  const parsed = parseType(type);
+  const aliases = (adapter && typeAliases[adapter]) || defaultTypeAliases;
+  const alias = aliases[parsed.base];
+  if (!alias) {
+    return parsed;
+  }
+  const target = parseType(alias);
+  return { base: target.base, params: parsed.params || target.params };
+}
+
+// Size and precision only count when both types have them, e.g. `varchar`
+// matches `character varying(256)` and `varchar(256)` matches Snowflake's
+// `TEXT`
+export function typesMatch(declared: string, actual: string, adapter?: string) {
+  const a = normalizeType(declared, adapter);
+  const b = normalizeType(actual, adapter);
+  return a.base == b.base && (!a.params || !b.params || a.params == b.params);
+}
+
+function toConstraints(
+  constraints: any[],
+  columns: string[],
+  project: any
+): ContractConstraint[] {
+  return _.sortBy(
+    _.map(constraints, (constraint) =>
+      toConstraint(constraint, columns, project)
+    ),
+    (constraint) => _.indexOf(constraintTypes, constraint.type)
+  );
+}
+
+function toConstraint(
+  constraint: any,
+  columns: string[],
+  project: any
+): ContractConstraint {
+  return {
+    type: constraint.type,
+    name: constraint.name || undefined,
+    expression: constraint.expression || undefined,
+    columns: constraint.columns || columns,
+    to:
+      constraint.type == "foreign_key"
+        ? findForeignKeyTarget(project, constraint)
+        : undefined,
+    to_columns: _.isEmpty(constraint.to_columns)
+      ? expressionColumns(constraint)
+      : constraint.to_columns,
+  };
+}
+
+// `analytics.customers (id)` references the `id` column
+function expressionColumns(constraint: any) {
+  const match = /\(([^)]*)\)\s*$/.exec(constraint.expression || "");
+  return constraint.type == "foreign_key" && match
+    ? _.compact(_.map(match[1].split(","), _.trim))
+    : [];
+}
+
+// `ref('orders')`, `ref('package', 'orders')`, optionally pinned to a version
+// with `v=2` or `version=2`
+const refPattern =
+  /^\s*ref\(\s*['"]([^'"]+)['"](?:\s*,\s*['"]([^'"]+)['"])?(?:\s*,\s*(?:v|version)\s*=\s*['"]?([^'"\s,)]+)['"]?)?/;
+const sourcePattern =
+  /^\s*source\(\s*['"]([^'"]+)['"]\s*,\s*['"]([^'"]+)['"]\s*\)/;
+
+// The node a foreign key points to. dbt 1.9 declares the target in `to` as a
+// ref() or source(); before that the relation is written out in `expression`,
+// e.g. `analytics.customers (id)`.
+export function findForeignKeyTarget(project: any, constraint: any) {
+  const nodes = _.values(project.nodes);
+  const target = _.trim(constraint.to || constraint.expression || "");
+  if (!target) {
+    return undefined;
+  }
+
+  const ref = refPattern.exec(target);
+  if (ref) {
+    const [packageName, name] = ref[2] ? [ref[1], ref[2]] : [null, ref[1]];
+    const version = ref[3];
+    return _.find(
+      nodes,
+      (node) =>
+        node.name == name &&
+        _.includes(["model", "seed", "snapshot"], node.resource_type) &&
+        (!packageName || node.package_name == packageName) &&
+        (node.version == null ||
+          (version
+            ? String(node.version) == version
+            : node.version == node.latest_version))
+    );
+  }
+  const source = sourcePattern.exec(target);
+  if (source) {
+    return _.find(nodes, {
+      resource_type: "source",
+      source_name: source[1],
+      name: source[2],
+    });
+  }
+
+  const relation = _.toLower(
+    target
+      .split("(")[0]
+      .replace(/["`[\]]/g, "")
+      .trim()
+  );
+  if (!relation) {
+    return undefined;
+  }
+  return _.find(
+    nodes,
+    (node) =>
+      _.includes(["model", "seed", "snapshot", "source"], node.resource_type) &&
+      _.includes(relationKeys(node), relation)
+  );
+}
+
+export function hasContract(model: any) {
+  return (
+    !!_.get(model, ["config", "contract", "enforced"]) ||
+    !_.isEmpty(model.constraints) ||
+    _.some(
+      model.columns,
+      (column: any) => column.data_type || !_.isEmpty(column.constraints)
+    )
+  );
+}
+
+// Declared against catalog types per column, with all constraints. Columns
+// without a declared type are left out unless they have constraints.
+export function getContract(project: any, model: any): Contract {
+  const columns = _.sortBy(_.values(model.columns), "index");
+  const adapter = _.get(project, ["metadata", "adapter_type"]);
+  return {
+    enforced: !!_.get(model, ["config", "contract", "enforced"]),
+    columns: _.compact(
+      _.map(columns, (column: any) => {
+        if (!column.data_type && _.isEmpty(column.constraints)) {
+          return null;
+        }
+        return {
+          name: column.name,
+          declared_type: column.data_type || undefined,
+          actual_type: column.type || undefined,
+          mismatch:
+            !!column.data_type &&
+            !!column.type &&
+            !typesMatch(column.data_type, column.type, adapter),
+          constraints: toConstraints(
+            column.constraints,
+            [column.name],
+            project
+          ),
+        };
+      })
+    ),
+    constraints: toConstraints(model.constraints, [], project),
+  };
+}
@@ -0,0 +1,68 @@
+import _ from "lodash";
+
+// Resource types counted by the documentation coverage report
+export const coverageResourceTypes = ["model", "source", "seed", "snapshot"];
+
+export type CoverageStats = {
+  resources: number;
+  documented: number;
+  columns: number;
+  documented_columns: number;
+};
+
+export type CoverageGroup = {
+  key: string;
+  stats: CoverageStats;
+};
+
+export function isDocumented(resource: any) {
+  return !!_.trim(resource.description);
+}
+
+export function getUndocumentedColumns(resource: any): string[] {
+  return _.map(
+    _.reject(_.values(resource.columns), isDocumented),
+    (column: any) => column.name
+  );
+}
+
+export function summarizeCoverage(resources: any[]): CoverageStats {
+  const columns = _.flatMap(resources, (resource) =>
+    _.values(resource.columns)
+  );
+  return {
+    resources: resources.length,
+    documented: _.filter(resources, isDocumented).length,
+    columns: columns.length,
+    documented_columns: _.filter(columns, isDocumented).length,
+  };
+}
+
+// Coverage per value of `getKey`, sorted by key. A resource is counted once
+// for every key it returns.
+export function groupCoverage(
+  resources: any[],
+  getKey: (resource: any) => string | string[]
+): CoverageGroup[] {
+  const groups: Record<string, any[]> = {};
+  _.each(resources, (resource) => {
+    _.each(_.castArray(getKey(resource)), (key) => {
+      (groups[key] = groups[key] || []).push(resource);
+    });
+  });
+  return _.sortBy(
+    _.map(groups, (members, key) => ({
+      key: key,
+      stats: summarizeCoverage(members),
+    })),
+    "key"
+  );
+}
+
+// e.g. "83%", or undefined when there is nothing to document
+export function formatPercentage(count: number, total: number) {
+  if (!total) {
+    return undefined;
+  }
+  return `${Math.floor((count / total) * 100)}%`;
+}
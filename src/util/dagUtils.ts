@@ -99,3 +99,199 @@ export function getMacroParents(project: any, self: any) {
 function mapToShortIds(arr: string[]) {
   return arr.map((id) => getShortID(id));
 }
+
+// Resource types drawn in the lineage graph. Tests are left out, as in the
+// original dbt docs graph, because they would swamp every model's lineage.
+export const lineageResourceTypes = [
+  "model",
+  "source",
+  "seed",
+  "snapshot",
+  "analysis",
+  "exposure",
+  "metric",
+  "semantic_model",
+  "saved_query",
+];
+
+export function buildChildMap(parentMap: any) {
+  const childMap: any = {};
+  _.each(parentMap, function (parents: string[], unique_id: string) {
+    if (!childMap[unique_id]) {
+      childMap[unique_id] = [];
+    }
+    _.each(parents, function (parent: string) {
+      if (!childMap[parent]) {
+        childMap[parent] = [];
+      }
+      childMap[parent].push(unique_id);
+    });
+  });
+  return childMap;
+}
+
+// In a dbt mesh a cross-project ref may name the unversioned id of a model
+// that its own project stores by version. Such parents are resolved to the
+// latest version of the model when it is loaded.
+export function resolveCrossProjectRefs(parentMap: any, nodes: any) {
+  const latest: Record<string, string> = {};
+  _.each(nodes, function (node: any) {
+    if (
+      node.resource_type == "model" &&
+      node.version != null &&
+      String(node.version) == String(node.latest_version)
+    ) {
+      latest[node.unique_id.replace(/\.v[^.]+$/, "")] = node.unique_id;
+    }
+  });
+  return _.mapObject(parentMap, function (parents: string[]) {
+    return _.map(parents, function (id: string) {
+      return nodes[id] || !latest[id] ? id : latest[id];
+    });
+  });
+}
+
+function projectOf(node: any) {
+  return node.project_name || node.package_name;
+}
+
+// dbt model access rules: private models may only be referenced from their
+// own group, protected ones from their own project, public ones from anywhere.
+export function canReference(parent: any, child: any) {
+  if (parent.resource_type != "model") {
+    return true;
+  }
+  const access = parent.access || _.property(["config", "access"])(parent);
+  const sameProject = projectOf(parent) == projectOf(child);
+  if (access == "private") {
+    return sameProject && parent.group == child.group;
+  } else if (access == "public" || (!access && sameProject)) {
+    return true;
+  }
+  return sameProject;
+}
+
+// Direct parents and children of a node that live in another project, with
+// whether the parent's access level allows the reference.
+export function getCrossProjectRefs(dag: any, nodes: any, node: any) {
+  const refs = (ids: string[], upstream: boolean) =>
+    _.compact(
+      _.map(ids || [], function (id: string) {
+        const other = nodes[id];
+        if (!other || projectOf(other) == projectOf(node)) {
+          return null;
+        }
+        return {
+          node: other,
+          allowed: upstream
+            ? canReference(other, node)
+            : canReference(node, other),
+        };
+      })
+    );
+  return {
+    upstream: refs(dag.parent_map[node.unique_id], true),
+    downstream: refs(dag.child_map[node.unique_id], false),
+  };
+}
+
+// Breadth-first walk over a parent_map or child_map. Returns every reachable
+// unique_id mapped to its distance from the starting node.
+function walkDag(map: any, unique_id: string, depth?: number) {
+  const seen: Record<string, number> = {};
+  let frontier = [unique_id];
+  let level = 0;
+  while (frontier.length && (depth === undefined || level < depth)) {
+    level++;
+    const next: string[] = [];
+    _.each(frontier, function (current: string) {
+      _.each(map[current] || [], function (id: string) {
+        if (id !== unique_id && !_.has(seen, id)) {
+          seen[id] = level;
+          next.push(id);
+        }
+      });
+    });
+    frontier = next;
+  }
+  return seen;
+}
+
+export function getUpstream(dag: any, unique_id: string, depth?: number) {
+  return walkDag(dag.parent_map, unique_id, depth);
+}
+
+export function getDownstream(dag: any, unique_id: string, depth?: number) {
+  return walkDag(dag.child_map, unique_id, depth);
+}
+
+// Like getDownstream, but also returns one of the shortest paths to every
+// downstream node, from the node's first child to the node itself.
+export function getDownstreamPaths(dag: any, unique_id: string) {
+  const via: Record<string, string> = {};
+  const depths = walkDag(dag.child_map, unique_id);
+  _.each(_.keys(depths), function (id: string) {
+    via[id] = _.find(dag.parent_map[id] || [], function (parent: string) {
+      return parent === unique_id || depths[parent] === depths[id] - 1;
+    });
+  });
+
+  return _.mapObject(depths, function (depth: number, id: string) {
+    const path = [id];
+    while (via[path[0]] && via[path[0]] !== unique_id) {
+      path.unshift(via[path[0]]);
+    }
+    return { depth: depth, path: path };
+  });
+}
+
+export function getLineageGraph(dag: any, nodes: any, unique_id: string) {
+  const included: Record<string, boolean> = {};
+  included[unique_id] = true;
+  _.each(_.keys(getUpstream(dag, unique_id)), function (id: string) {
+    included[id] = true;
+  });
+  _.each(_.keys(getDownstream(dag, unique_id)), function (id: string) {
+    included[id] = true;
+  });
+
+  return buildGraphElements(dag, nodes, _.keys(included));
+}
+
+export function buildGraphElements(dag: any, nodes: any, ids: string[]) {
+  const elements = _.filter(ids, function (id: string) {
+    return (
+      nodes[id] && _.contains(lineageResourceTypes, nodes[id].resource_type)
+    );
+  });
+  const included = _.object(
+    elements,
+    _.map(elements, () => true)
+  );
+
+  const edges: { from: string; to: string; cross_project?: boolean }[] = [];
+  _.each(elements, function (id: string) {
+    _.each(dag.parent_map[id] || [], function (parent: string) {
+      if (included[parent]) {
+        edges.push(
+          projectOf(nodes[parent]) == projectOf(nodes[id])
+            ? { from: parent, to: id }
+            : { from: parent, to: id, cross_project: true }
+        );
+      }
+    });
+  });
+
+  return {
+    nodes: _.map(elements, function (id: string) {
+      const node = nodes[id];
+      return {
+        unique_id: node.unique_id,
+        label: node.label || node.name,
+        resource_type: node.resource_type,
+        project_name: projectOf(node),
+      };
+    }),
+    edges: edges,
+  };
+}
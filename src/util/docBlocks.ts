@@ -0,0 +1,94 @@
+import _ from "lodash";
+import { getShortID } from "./nodeUrl";
+
+// Doc blocks (`{% docs %}` in markdown files) used by descriptions. dbt 1.10
+// lists the blocks a description uses in `doc_blocks`; for older manifests,
+// where `{{ doc() }}` has already been rendered into the description, they
+// are recovered by finding the block contents in the description.
+
+export type DocUsage = {
+  unique_id: string;
+  resource_type: string;
+  name: string;
+  column?: string;
+};
+
+// Blocks dbt uses for the overview page rather than for descriptions
+export function isOverviewDoc(doc: any) {
+  return /^__.*__$/.test(doc.name);
+}
+
+// Short blocks such as "Primary key" only count when they are the whole
+// description, otherwise they would match all kinds of unrelated text
+const minEmbeddedLength = 30;
+
+function matchDocBlocks(description: string, blocks: any[]) {
+  const text = _.trim(description);
+  if (!text) {
+    return [];
+  }
+  return _.map(
+    _.filter(
+      blocks,
+      (block) =>
+        text == block.contents ||
+        (block.contents.length >= minEmbeddedLength &&
+          text.indexOf(block.contents) != -1)
+    ),
+    "unique_id"
+  );
+}
+
+// Doc block ids in dbt 1.10 are `doc.<package>.<name>`, older releases did not
+// write them at all. Docs are keyed by their short id, like nodes.
+function normalizeDocBlocks(ids: any[], docs: any) {
+  return _.filter(
+    _.map(ids, (id) =>
+      getShortID(_.has(docs, getShortID(id)) ? id : `doc.${id}`)
+    ),
+    (id) => _.has(docs, id)
+  );
+}
+
+// Fills `doc_blocks` on every node and column that has a description
+export function attachDocBlocks(nodes: any, docs: any) {
+  const blocks = _.filter(
+    _.map(_.reject(_.values(docs), isOverviewDoc), (doc: any) => ({
+      unique_id: doc.unique_id,
+      contents: _.trim(doc.block_contents),
+    })),
+    "contents"
+  );
+
+  const attach = (resource: any) => {
+    resource.doc_blocks = Array.isArray(resource.doc_blocks)
+      ? normalizeDocBlocks(resource.doc_blocks, docs)
+      : matchDocBlocks(resource.description, blocks);
+  };
+  _.each(nodes, (node: any) => {
+    attach(node);
+    _.each(node.columns, attach);
+  });
+}
+
+// Nodes and columns using each doc block, keyed by the doc's unique_id
+export function getDocUsage(nodes: any): Record<string, DocUsage[]> {
+  const usage: Record<string, DocUsage[]> = {};
+  const add = (id: string, entry: DocUsage) => {
+    (usage[id] = usage[id] || []).push(entry);
+  };
+  _.each(nodes, (node: any) => {
+    const entry = {
+      unique_id: node.unique_id,
+      resource_type: node.resource_type,
+      name: node.label || node.name,
+    };
+    _.each(node.doc_blocks, (id: string) => add(id, entry));
+    _.each(node.columns, (column: any) => {
+      _.each(column.doc_blocks, (id: string) =>
+        add(id, { ...entry, column: column.name })
+      );
+    });
+  });
+  return usage;
+}
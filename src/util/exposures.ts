@@ -0,0 +1,58 @@
+import _ from "lodash";
+import { getModelTests } from "./testCoverage";
+import { getUpstream } from "./dagUtils";
+
+// Resources listed as what an exposure ultimately depends on
+export const upstreamResourceTypes = ["model", "source", "seed", "snapshot"];
+
+// Test and freshness statuses worth calling out on an exposure
+const problemStatuses = ["runtime error", "error", "fail", "warn"];
+
+export type UpstreamEntry = {
+  node: any;
+  depth: number;
+  failing_tests: any[];
+  stale: boolean;
+};
+
+function hasProblem(result: any) {
+  return !!result && _.includes(problemStatuses, result.status);
+}
+
+// Every model, source, seed and snapshot upstream of the exposure with its
+// distance, the tests on it that did not pass and whether it is a stale source
+export function getExposureUpstream(
+  project: any,
+  exposure: any
+): UpstreamEntry[] {
+  const upstream = getUpstream(project, exposure.unique_id);
+  const entries = _.compact(
+    _.map(upstream, (depth, id) => {
+      const node = project.nodes[id];
+      if (!node || !_.includes(upstreamResourceTypes, node.resource_type)) {
+        return null;
+      }
+      return {
+        node: node,
+        depth: depth,
+        failing_tests: _.filter(getModelTests(project, node), (test) =>
+          hasProblem(test.run_result)
+        ),
+        stale: hasProblem(node.freshness_result),
+      };
+    })
+  );
+  return _.sortBy(entries, ["depth", (entry) => entry.node.label]);
+}
+
+// Exposures are grouped by owner email; owners without one by their name
+export function getExposureOwnerKey(exposure: any) {
+  const owner = exposure.owner || {};
+  return _.toLower(owner.email || owner.name || "");
+}
+
+// Anchor of an owner's section on the exposure owners page. Keys are emails
+// or names, so they are slugified to be usable as an id.
+export function getExposureOwnerAnchor(key: string) {
+  return key ? `owner-${_.kebabCase(key)}` : "no-owner";
+}
@@ -0,0 +1,58 @@
+// Helpers for source freshness as configured in `freshness:` and reported
+// by `dbt source freshness` in sources.json.
+
+type FreshnessThreshold = {
+  count?: number | null;
+  period?: string | null;
+};
+
+function describeThreshold(threshold?: FreshnessThreshold | null) {
+  if (!threshold || threshold.count == null || !threshold.period) {
+    return null;
+  }
+  // dbt periods are singular: minute, hour or day
+  const period = threshold.period.replace(/s$/, "");
+  return `${threshold.count} ${period}${threshold.count == 1 ? "" : "s"}`;
+}
+
+// e.g. "warn after 12 hours, error after 1 day"
+export function describeFreshnessCriteria(freshness: any) {
+  if (!freshness) {
+    return undefined;
+  }
+  const parts = [];
+  const warn = describeThreshold(freshness.warn_after);
+  const error = describeThreshold(freshness.error_after);
+  if (warn) {
+    parts.push(`warn after ${warn}`);
+  }
+  if (error) {
+    parts.push(`error after ${error}`);
+  }
+  return parts.length ? parts.join(", ") : undefined;
+}
+
+// Compact age of the newest loaded row, e.g. "2d 3h" or "45m"
+export function formatAge(seconds?: number | null) {
+  if (seconds == null) {
+    return undefined;
+  }
+  const units: [string, number][] = [
+    ["d", 86400],
+    ["h", 3600],
+    ["m", 60],
+    ["s", 1],
+  ];
+  const total = Math.floor(seconds);
+  const index = units.findIndex(([, size]) => total >= size);
+  if (index == -1) {
+    return "0s";
+  }
+  const [unit, size] = units[index];
+  let age = `${Math.floor(total / size)}${unit}`;
+  const next = units[index + 1];
+  if (next && Math.floor((total % size) / next[1]) > 0) {
+    age += ` ${Math.floor((total % size) / next[1])}${next[0]}`;
+  }
+  return age;
+}
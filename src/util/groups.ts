@@ -0,0 +1,71 @@
+import _ from "lodash";
+
+// dbt groups (1.5 and later): models belong to a group through their `group`
+// config, and their `access` decides whether models outside the group may ref
+// them.
+
+export const accessLevels = ["public", "protected", "private"];
+
+// Groups are keyed by `group.<package>.<name>` in the manifest
+export function getGroupId(node: any) {
+  return node.group ? `group.${node.package_name}.${node.group}` : undefined;
+}
+
+export function getGroupUrl(group: any) {
+  return "/group/" + group.unique_id + "/";
+}
+
+// Tests can be in a group too, but are left out like everywhere else
+export function getGroupNodes(project: any, group: any) {
+  return _.sortBy(
+    _.filter(
+      _.values(project.nodes),
+      (node) =>
+        node.resource_type != "test" && getGroupId(node) == group.unique_id
+    ),
+    "label"
+  );
+}
+
+export type CrossGroupDependency = {
+  node: any;
+  other: any;
+  other_group?: string;
+};
+
+function crossGroup(
+  project: any,
+  group: any,
+  nodes: any[],
+  map: any
+): CrossGroupDependency[] {
+  const dependencies = _.flatMap(nodes, (node) => {
+    const ids: string[] = _.uniq(map[node.unique_id] || []);
+    const others = _.filter(
+      _.map(ids, (id) => project.nodes[id]),
+      (other) =>
+        !!other &&
+        other.resource_type != "test" &&
+        getGroupId(other) != group.unique_id
+    );
+    return _.map(others, (other) => ({
+      node: node,
+      other: other,
+      other_group: getGroupId(other),
+    }));
+  });
+  return _.sortBy(dependencies, [
+    (dependency) => dependency.other_group || "",
+    (dependency) => dependency.other.label,
+  ]);
+}
+
+// What the group's nodes select from outside the group, and what outside the
+// group selects from them. Nodes without a group count as outside.
+export function getCrossGroupDependencies(project: any, group: any) {
+  const nodes = getGroupNodes(project, group);
+  return {
+    upstream: crossGroup(project, group, nodes, project.parent_map),
+    downstream: crossGroup(project, group, nodes, project.child_map),
+  };
+}
@@ -0,0 +1,233 @@
+import _ from "lodash";
+import { getGroupId } from "./groups";
+
+// Rules that flag common dbt project issues in the loaded project. Every rule
+// gets the whole project and returns the issues it found; the /health page and
+// the /healthreport JSON are built from the same report.
+
+export type HealthSeverity = "error" | "warn";
+
+export type HealthIssue = {
+  rule: string;
+  severity: HealthSeverity;
+  unique_id: string;
+  resource_type: string;
+  name: string;
+  message: string;
+};
+
+export type HealthOptions = {
+  // folders whose models should build on staging models, not sources
+  mart_folders: string[];
+  max_parents: number;
+  max_fan_out: number;
+};
+
+export type HealthRule = {
+  id: string;
+  title: string;
+  description: string;
+  severity: HealthSeverity;
+  check: (
+    project: any,
+    options: HealthOptions
+  ) => Omit<HealthIssue, "rule" | "severity">[];
+};
+
+export const defaultHealthOptions: HealthOptions = {
+  mart_folders: ["marts"],
+  max_parents: 5,
+  max_fan_out: 10,
+};
+
+// Thresholds can be changed for a build with DBT_HEALTH_MAX_PARENTS,
+// DBT_HEALTH_MAX_FAN_OUT and DBT_HEALTH_MART_FOLDERS (comma separated).
+export function getHealthOptions(): HealthOptions {
+  const env = process.env;
+  return {
+    mart_folders: env.DBT_HEALTH_MART_FOLDERS
+      ? _.compact(env.DBT_HEALTH_MART_FOLDERS.split(",").map(_.trim))
+      : defaultHealthOptions.mart_folders,
+    max_parents:
+      Number(env.DBT_HEALTH_MAX_PARENTS) || defaultHealthOptions.max_parents,
+    max_fan_out:
+      Number(env.DBT_HEALTH_MAX_FAN_OUT) || defaultHealthOptions.max_fan_out,
+  };
+}
+
+function models(project: any) {
+  return _.filter(_.values(project.nodes), { resource_type: "model" });
+}
+
+function issue(node: any, message: string) {
+  return {
+    unique_id: node.unique_id,
+    resource_type: node.resource_type,
+    name: node.label || node.name,
+    message: message,
+  };
+}
+
+function folders(node: any) {
+  return _.initial(node.original_file_path.split(/[\\/]/));
+}
+
+export const healthRules: HealthRule[] = [
+  {
+    id: "mart_depends_on_source",
+    title: "Marts selecting from sources",
+    description:
+      "Models in mart folders should build on staging models instead of reading sources directly.",
+    severity: "warn",
+    check: (project, options) =>
+      _.flatMap(models(project), (node) => {
+        if (_.intersection(folders(node), options.mart_folders).length == 0) {
+          return [];
+        }
+        const sources = _.filter(
+          project.parent_map[node.unique_id],
+          (id: string) =>
+            _.get(project.nodes, [id, "resource_type"]) == "source"
+        );
+        return sources.length
+          ? [
+              issue(
+                node,
+                `depends directly on ${sources
+                  .map((id: string) => project.nodes[id].label)
+                  .join(", ")}`
+              ),
+            ]
+          : [];
+      }),
+  },
+  {
+    id: "unused_source",
+    title: "Unused sources",
+    description:
+      "Sources that no model, snapshot, exposure or metric references. Tests on the source do not count.",
+    severity: "warn",
+    check: (project) =>
+      _.flatMap(_.values(project.sources), (source) => {
+        const referenced = _.some(
+          project.child_map[source.unique_id],
+          (id: string) => {
+            const type = _.get(project.nodes, [id, "resource_type"]);
+            return !!type && type != "test";
+          }
+        );
+        return referenced ? [] : [issue(source, "is not referenced")];
+      }),
+  },
+  {
+    id: "too_many_parents",
+    title: "Too many parents",
+    description:
+      "Models joining many direct parents are hard to follow and usually worth splitting up.",
+    severity: "warn",
+    check: (project, options) =>
+      _.flatMap(models(project), (node) => {
+        const parents = _.uniq(project.parent_map[node.unique_id] || []);
+        return parents.length > options.max_parents
+          ? [
+              issue(
+                node,
+                `has ${parents.length} direct parents (more than ${options.max_parents})`
+              ),
+            ]
+          : [];
+      }),
+  },
+  {
+    id: "ref_fan_out",
+    title: "High ref fan-out",
+    description:
+      "Models referenced by many other models directly; a change to them affects much of the project.",
+    severity: "warn",
+    check: (project, options) =>
+      _.flatMap(models(project), (node) => {
+        const children = _.filter(
+          _.uniq(project.child_map[node.unique_id] || []),
+          (id: string) => _.get(project.nodes, [id, "resource_type"]) == "model"
+        );
+        return children.length > options.max_fan_out
+          ? [
+              issue(
+                node,
+                `is referenced by ${children.length} models (more than ${options.max_fan_out})`
+              ),
+            ]
+          : [];
+      }),
+  },
+  {
+    id: "undocumented_public_model",
+    title: "Undocumented public models",
+    description:
+      "Public models can be referenced from other projects, so they need a description.",
+    severity: "error",
+    check: (project) =>
+      _.flatMap(models(project), (node) =>
+        node.access == "public" && !_.trim(node.description)
+          ? [issue(node, "has public access but no description")]
+          : []
+      ),
+  },
+  {
+    id: "group_without_owner",
+    title: "Groups without owners",
+    description:
+      "Every group needs an owner with a name or email, and resources may only belong to groups that exist.",
+    severity: "error",
+    check: (project) => {
+      const ownerless = _.flatMap(_.values(project.groups), (group) =>
+        _.get(group, ["owner", "name"]) || _.get(group, ["owner", "email"])
+          ? []
+          : [issue(group, "has no owner")]
+      );
+      const missing = _.flatMap(_.values(project.nodes), (node) => {
+        const groupId = getGroupId(node);
+        return groupId && !_.has(project.groups, [groupId])
+          ? [
+              issue(
+                node,
+                `belongs to group ${node.group}, which does not exist`
+              ),
+            ]
+          : [];
+      });
+      return ownerless.concat(missing);
+    },
+  },
+];
+
+export type HealthReport = {
+  generated_at?: string;
+  options: HealthOptions;
+  rules: Omit<HealthRule, "check">[];
+  summary: Record<string, number>;
+  issues: HealthIssue[];
+};
+
+export function buildHealthReport(
+  project: any,
+  options: HealthOptions = defaultHealthOptions
+): HealthReport {
+  const issues = _.flatMap(healthRules, (rule) =>
+    _.map(rule.check(project, options), (found) => ({
+      rule: rule.id,
+      severity: rule.severity,
+      ...found,
+    }))
+  );
+  return {
+    generated_at: _.get(project, ["metadata", "generated_at"]),
+    options: options,
+    rules: _.map(healthRules, (rule) => _.omit(rule, "check")),
+    summary: _.mapValues(
+      _.keyBy(healthRules, "id"),
+      (rule) => _.filter(issues, { rule: rule.id }).length
+    ),
+    issues: issues,
+  };
+}
@@ -0,0 +1,108 @@
+import _ from "lodash";
+import { getDownstreamPaths, lineageResourceTypes } from "./dagUtils";
+import { getNodeUrl } from "./nodeUrl";
+
+// Everything that depends on a node, directly or not, for announcing a change
+// to it. Tests are left out as they would swamp the list.
+
+export type ImpactEntry = {
+  unique_id: string;
+  name: string;
+  resource_type: string;
+  url: string;
+  depth: number;
+  // labels from the node's first child down to this entry
+  path: string[];
+  owners: string[];
+};
+
+export function getImpact(
+  project: any,
+  node: any,
+  getOwners: (node: any) => string[]
+): ImpactEntry[] {
+  const paths = getDownstreamPaths(project, node.unique_id);
+  const entries = _.compact(
+    _.map(paths, ({ depth, path }: any, id: string) => {
+      const downstream = project.nodes[id];
+      if (
+        !downstream ||
+        !_.includes(lineageResourceTypes, downstream.resource_type)
+      ) {
+        return null;
+      }
+      return {
+        unique_id: id,
+        name: downstream.label || downstream.name,
+        resource_type: downstream.resource_type,
+        url: getNodeUrl(downstream),
+        depth: depth,
+        path: _.map(path, (step: string) =>
+          _.get(project.nodes, [step, "label"], step)
+        ),
+        owners: getOwners(downstream),
+      };
+    })
+  );
+  return _.sortBy(entries, ["depth", "name"]);
+}
+
+// Owners to notify, with the downstream nodes they own
+export function getImpactOwners(entries: ImpactEntry[]) {
+  const owners: Record<string, ImpactEntry[]> = {};
+  _.each(entries, (entry) => {
+    const key = entry.owners.join(" ");
+    if (key) {
+      (owners[key] = owners[key] || []).push(entry);
+    }
+  });
+  return _.sortBy(
+    _.map(owners, (entries, owner) => ({ owner: owner, entries: entries })),
+    "owner"
+  );
+}
+
+function csvValue(value: any) {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function impactToCsv(entries: ImpactEntry[]) {
+  const rows = [["name", "resource_type", "depth", "path", "owners"]].concat(
+    _.map(entries, (entry) => [
+      entry.name,
+      entry.resource_type,
+      String(entry.depth),
+      entry.path.join(" > "),
+      entry.owners.join("; "),
+    ])
+  );
+  return rows.map((row) => row.map(csvValue).join(",")).join("\n") + "\n";
+}
+
+function markdownValue(value: string) {
+  return value.replace(/\|/g, "\\|");
+}
+
+// A table for a change announcement, e.g. in a pull request or Slack post
+export function impactToMarkdown(name: string, entries: ImpactEntry[]) {
+  const lines = [
+    `Changing **${markdownValue(name)}** affects ${
+      entries.length
+    } downstream resource${entries.length == 1 ? "" : "s"}:`,
+    "",
+    "| Name | Type | Depth | Path | Owners |",
+    "| --- | --- | --- | --- | --- |",
+  ].concat(
+    _.map(
+      entries,
+      (entry) =>
+        `| ${markdownValue(entry.name)} | ${entry.resource_type} | ${
+          entry.depth
+        } | ${markdownValue(entry.path.join(" → "))} | ${markdownValue(
+          entry.owners.join(", ")
+        )} |`
+    )
+  );
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,118 @@
+import _ from "lodash";
+
+// Model versions (dbt 1.5 and later): every version of a model is its own
+// node, `model.<package>.<name>.v<version>`, sharing the model's name.
+
+export function isVersioned(model: any) {
+  return model.resource_type == "model" && model.version != null;
+}
+
+export function isLatestVersion(model: any) {
+  return (
+    isVersioned(model) && String(model.version) == String(model.latest_version)
+  );
+}
+
+// Versions above latest_version are prereleases that refs do not pick up
+function isPrerelease(model: any) {
+  return (
+    isVersioned(model) &&
+    model.latest_version != null &&
+    compareVersions(model.version, model.latest_version) > 0
+  );
+}
+
+// Versions are usually numbers, but dbt allows any string
+export function compareVersions(a: any, b: any) {
+  const x = Number(a);
+  const y = Number(b);
+  if (!isNaN(x) && !isNaN(y)) {
+    return x - y;
+  }
+  return String(a).localeCompare(String(b));
+}
+
+export function getVersionLabel(model: any) {
+  if (isLatestVersion(model)) {
+    return "latest";
+  }
+  return isPrerelease(model) ? "prerelease" : undefined;
+}
+
+// All versions of the model, oldest first
+export function getModelVersions(project: any, model: any) {
+  if (!isVersioned(model)) {
+    return [];
+  }
+  const versions = _.filter(
+    _.values(project.nodes),
+    (node) =>
+      isVersioned(node) &&
+      node.name == model.name &&
+      node.package_name == model.package_name
+  );
+  return versions.sort((a, b) => compareVersions(a.version, b.version));
+}
+
+export type Deprecation = {
+  date: string;
+  // the date has already passed when the project was built
+  passed: boolean;
+};
+
+export function getDeprecation(
+  model: any,
+  now: Date = new Date()
+): Deprecation | undefined {
+  if (!model.deprecation_date) {
+    return undefined;
+  }
+  return {
+    date: model.deprecation_date,
+    passed: Date.parse(model.deprecation_date) <= now.getTime(),
+  };
+}
+
+export type ColumnChange = {
+  name: string;
+  // undefined when the column was added or removed
+  from?: string;
+  to?: string;
+  change: "added" | "removed" | "type";
+};
+
+function columnType(column: any) {
+  return column.data_type || column.type || "";
+}
+
+// Columns added, removed or with another type in `newer`, compared by name
+// regardless of case
+export function diffVersionColumns(older: any, newer: any): ColumnChange[] {
+  const before = _.keyBy(_.values(older.columns), (column: any) =>
+    _.toLower(column.name)
+  );
+  const after = _.keyBy(_.values(newer.columns), (column: any) =>
+    _.toLower(column.name)
+  );
+
+  const removed = _.map(_.difference(_.keys(before), _.keys(after)), (key) => ({
+    name: before[key].name,
+    from: columnType(before[key]) || undefined,
+    change: "removed" as const,
+  }));
+  const added = _.map(_.difference(_.keys(after), _.keys(before)), (key) => ({
+    name: after[key].name,
+    to: columnType(after[key]) || undefined,
+    change: "added" as const,
+  }));
+  const changed = _.compact(
+    _.map(_.intersection(_.keys(before), _.keys(after)), (key) => {
+      const from = columnType(before[key]);
+      const to = columnType(after[key]);
+      return from && to && _.toLower(from) != _.toLower(to)
+        ? { name: after[key].name, from: from, to: to, change: "type" as const }
+        : null;
+    })
+  );
+  return _.concat<ColumnChange>(removed, added, changed);
+}
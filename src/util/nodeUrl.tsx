@@ -12,6 +12,70 @@ export function getNodeUrl(node: any) {
   return "/" + node.resource_type + "/" + node.unique_id + "/";
 }
 
+// Inverse of getNodeUrl: pulls the resource type and unique_id back out of a
+// node page path such as "/model/model.my_project.orders/".
+export function parseNodeUrl(url: string) {
+  const parts = url.split("/").filter((part) => part.length > 0);
+  if (parts.length != 2) {
+    return null;
+  }
+  return {
+    resource_type: parts[0],
+    unique_id: decodeURIComponent(parts[1]),
+  };
+}
+
+// The original dbt docs site routed with hash URLs such as
+// "#!/model/model.my_project.orders?g_v=1&g_i=+orders", which bookmarks and
+// descriptions still link to.
+const legacyRoutePattern = /^#!\/([^?]*)(?:\?(.*))?$/;
+
+// Node pages of the original site, all of them are at /<state>/<unique_id>
+const legacyNodeStates = [
+  "model",
+  "source",
+  "seed",
+  "snapshot",
+  "test",
+  "analysis",
+  "macro",
+  "exposure",
+  "metric",
+  "operation",
+];
+
+// Lineage graph state: shown, --select and --exclude
+export const legacyGraphParams = ["g_v", "g_i", "g_e"];
+
+// This site's route for a legacy hash URL, including its graph parameters, or
+// null for any other URL
+export function getLegacyUrl(url: string) {
+  const match = legacyRoutePattern.exec(url);
+  if (!match) {
+    return null;
+  }
+  const parts = match[1].split("/").filter((part) => part.length > 0);
+  const state = parts[0];
+  const arg = decodeURIComponent(parts.slice(1).join("/"));
+
+  let path;
+  if (!state || state == "overview") {
+    path = arg ? `/overview/${arg.toLowerCase()}/` : "/overview/";
+  } else if (state == "source_list" && arg) {
+    path = `/source_list/${getShortID(arg)}/`;
+  } else if (legacyNodeStates.indexOf(state) != -1 && arg) {
+    path = getNodeUrl({ resource_type: state, unique_id: getShortID(arg) });
+  } else {
+    return null;
+  }
+
+  const params = new URLSearchParams(match[2] || "");
+  const graph = legacyGraphParams
+    .filter((key) => params.has(key))
+    .map((key) => `${key}=${encodeURIComponent(params.get(key) || "")}`);
+  return graph.length ? `${path}?${graph.join("&")}` : path;
+}
+
 function cyrb53(str: string, seed: number = 0) {
   let h1 = 0xdeadbeef ^ seed,
     h2 = 0x41c6ce57 ^ seed;
@@ -0,0 +1,53 @@
+import _ from "lodash";
+
+// Resource types whose `dbt run`/`dbt build` timings are reported
+export const timedResourceTypes = ["model", "seed", "snapshot"];
+
+// e.g. "0.42s", "12.3s" or "4m 05s"
+export function formatDuration(seconds?: number | null) {
+  if (seconds == null) {
+    return undefined;
+  }
+  // round first so that e.g. 59.97 shows as "1m 00s" rather than "60.0s"
+  const hundredths = Math.round(seconds * 100) / 100;
+  if (hundredths < 10) {
+    return `${hundredths.toFixed(2)}s`;
+  }
+  const tenths = Math.round(seconds * 10) / 10;
+  if (tenths < 60) {
+    return `${tenths.toFixed(1)}s`;
+  }
+  const total = Math.round(seconds);
+  const minutes = Math.floor(total / 60);
+  const rest = total % 60;
+  return `${minutes}m ${rest < 10 ? "0" : ""}${rest}s`;
+}
+
+export function formatBytes(bytes?: number | null) {
+  if (bytes == null) {
+    return undefined;
+  }
+  const units = ["bytes", "KB", "MB", "GB", "TB", "PB"];
+  const exponent =
+    bytes > 0
+      ? Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1)
+      : 0;
+  const value = bytes / Math.pow(1024, exponent);
+  return `${exponent ? value.toFixed(1) : value} ${units[exponent]}`;
+}
+
+// Nodes with a run result, slowest first
+export function getSlowestNodes(nodes: any, limit?: number) {
+  const timed = _.orderBy(
+    _.filter(
+      _.values(nodes),
+      (node) =>
+        _.includes(timedResourceTypes, node.resource_type) &&
+        node.run_result &&
+        node.run_result.execution_time != null
+    ),
+    (node) => node.run_result.execution_time,
+    "desc"
+  );
+  return limit ? _.take(timed, limit) : timed;
+}
@@ -0,0 +1,392 @@
+import _ from "lodash";
+import {
+  ManifestExposure,
+  ManifestMacro,
+  ManifestMetric,
+  ManifestNode,
+  ManifestSource,
+} from "@/schemas/model";
+
+// Inverted index used by the search bar. It is built once at build time by
+// the /searchindex route and queried in the browser, so everything in here
+// must stay free of server-only imports.
+
+// Fields are stored as bits so a posting only needs one number per document.
+export const searchFields = [
+  { key: "name", bit: 1, weight: 10 },
+  { key: "label", bit: 2, weight: 8 },
+  { key: "tags", bit: 4, weight: 6 },
+  { key: "columns", bit: 8, weight: 5 },
+  { key: "description", bit: 16, weight: 2 },
+  { key: "column_description", bit: 32, weight: 1.5 },
+  { key: "raw_code", bit: 64, weight: 1 },
+];
+
+export type SearchIndex = {
+  docs: any[];
+  // token -> flat [docIndex, fieldMask, docIndex, fieldMask, ...]
+  terms: Record<string, number[]>;
+};
+
+// Shape of a searchable node as served to the browser. `owner` lists the
+// owner names and emails used by the `owner:` search facet.
+export function searchDocument(
+  {
+    name,
+    description,
+    columns,
+    tags,
+    unique_id,
+    resource_type,
+    source_name,
+    package_name,
+    label,
+    version,
+    config,
+  }:
+    | ManifestNode
+    | ManifestSource
+    | ManifestMacro
+    | ManifestExposure
+    | ManifestMetric,
+  owner: string[] = []
+) {
+  return {
+    name,
+    description,
+    unique_id,
+    resource_type,
+    source_name,
+    package_name,
+    label,
+    version,
+    columns: Object.fromEntries(
+      Object.values(columns || {}).map(({ name, description }: any) => [
+        name,
+        {
+          name,
+          description,
+        },
+      ])
+    ),
+    tags,
+    materialized: config?.materialized,
+    owner,
+  };
+}
+
+// Splits text into lowercased words. snake_case identifiers are indexed both
+// whole and by part so that "orders" finds "fct_orders".
+export function tokenize(text: string) {
+  const tokens: string[] = [];
+  _.each((text || "").toLowerCase().match(/[a-z0-9_]+/g) || [], (word) => {
+    tokens.push(word);
+    if (word.indexOf("_") != -1) {
+      _.each(word.split("_"), (part) => {
+        if (part) {
+          tokens.push(part);
+        }
+      });
+    }
+  });
+  return tokens;
+}
+
+function fieldText(doc: any, key: string): string[] {
+  switch (key) {
+    case "columns":
+      return _.map(_.values(doc.columns), "name");
+    case "column_description":
+      return _.map(_.values(doc.columns), "description");
+    case "tags":
+      return doc.tags || [];
+    default:
+      return doc[key] ? [doc[key]] : [];
+  }
+}
+
+export function buildSearchIndex(docs: any[]): SearchIndex {
+  const masks: Record<string, Record<number, number>> = {};
+  _.each(docs, (doc, docIndex) => {
+    _.each(searchFields, (field) => {
+      _.each(fieldText(doc, field.key), (text) => {
+        _.each(tokenize(text), (token) => {
+          if (!masks[token]) {
+            masks[token] = {};
+          }
+          masks[token][docIndex] = (masks[token][docIndex] || 0) | field.bit;
+        });
+      });
+    });
+  });
+
+  const terms: Record<string, number[]> = {};
+  _.each(masks, (postings, token) => {
+    terms[token] = _.flatMap(postings, (mask, docIndex) => [
+      Number(docIndex),
+      mask,
+    ]);
+  });
+  return { docs, terms };
+}
+
+function maskScore(mask: number) {
+  return _.sumBy(searchFields, (field) =>
+    mask & field.bit ? field.weight : 0
+  );
+}
+
+function maskKeys(mask: number) {
+  return _.map(
+    _.filter(searchFields, (field) => (mask & field.bit) != 0),
+    "key"
+  );
+}
+
+// Levenshtein distance, bailing out once it exceeds `max`.
+function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+  let previous = _.range(b.length + 1);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] == b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      best = Math.min(best, current[j]);
+    }
+    if (best > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Sorted term list used for prefix and typo lookups; built lazily per index.
+const sortedTerms = new WeakMap<SearchIndex, string[]>();
+
+function getSortedTerms(index: SearchIndex) {
+  let terms = sortedTerms.get(index);
+  if (!terms) {
+    terms = _.keys(index.terms).sort();
+    sortedTerms.set(index, terms);
+  }
+  return terms;
+}
+
+// Finds index terms matching a query token: the exact term, terms it is a
+// prefix of, and for longer tokens terms within a small edit distance. Each
+// candidate carries a multiplier so exact hits outrank fuzzy ones.
+function matchTerms(index: SearchIndex, token: string) {
+  const candidates: Record<string, number> = {};
+  if (index.terms[token]) {
+    candidates[token] = 1;
+  }
+
+  const terms = getSortedTerms(index);
+  let i = _.sortedIndex(terms, token);
+  for (; i < terms.length && _.startsWith(terms[i], token); i++) {
+    if (!candidates[terms[i]]) {
+      candidates[terms[i]] = 0.5 * (token.length / terms[i].length) + 0.25;
+    }
+  }
+
+  const maxTypos = token.length >= 8 ? 2 : token.length >= 4 ? 1 : 0;
+  if (maxTypos) {
+    const start = _.sortedIndex(terms, token[0]);
+    for (let j = start; j < terms.length && terms[j][0] == token[0]; j++) {
+      const term = terms[j];
+      if (candidates[term]) {
+        continue;
+      }
+      const distance = editDistance(token, term, maxTypos);
+      if (distance <= maxTypos) {
+        candidates[term] = 0.4 / distance;
+      }
+    }
+  }
+  return candidates;
+}
+
+function displayName(doc: any) {
+  return (doc.label || doc.name || "").toLowerCase();
+}
+
+// Ranks documents matching every token of the query. Results use the same
+// `{ model, matches }` shape the search results view has always consumed.
+export function searchIndex(index: SearchIndex, query: string) {
+  const tokens = _.uniq(tokenize(query));
+  if (!tokens.length) {
+    return _.map(index.docs, (model) => ({ model: model, matches: [] }));
+  }
+
+  let scores: Record<string, number> | null = null;
+  const masks: Record<number, number> = {};
+  _.each(tokens, (token) => {
+    const tokenScores: Record<string, number> = {};
+    _.each(matchTerms(index, token), (multiplier, term) => {
+      const postings = index.terms[term];
+      for (let i = 0; i < postings.length; i += 2) {
+        const doc = postings[i];
+        const score = maskScore(postings[i + 1]) * multiplier;
+        tokenScores[doc] = Math.max(tokenScores[doc] || 0, score);
+        masks[doc] = (masks[doc] || 0) | postings[i + 1];
+      }
+    });
+
+    if (scores === null) {
+      scores = tokenScores;
+    } else {
+      const previous: Record<string, number> = scores;
+      const combined: Record<string, number> = {};
+      _.each(tokenScores, (score, doc) => {
+        if (previous[doc] !== undefined) {
+          combined[doc] = previous[doc] + score;
+        }
+      });
+      scores = combined;
+    }
+  });
+
+  const normalized = query.trim().toLowerCase();
+  const ranked = _.map(scores || {}, (score: number, doc) => {
+    const model = index.docs[Number(doc)];
+    const name = displayName(model);
+    let boost = 0;
+    if (name == normalized || (model.name || "").toLowerCase() == normalized) {
+      boost = 100;
+    } else if (_.startsWith(name, normalized)) {
+      boost = 20;
+    }
+    return { doc: Number(doc), score: score + boost };
+  });
+
+  return _.map(
+    _.orderBy(
+      ranked,
+      ["score", (r) => displayName(index.docs[r.doc])],
+      ["desc", "asc"]
+    ),
+    ({ doc }) => ({
+      model: index.docs[doc],
+      matches: _.map(maskKeys(masks[doc]), (key) => ({
+        key: key,
+        value: query,
+      })),
+    })
+  );
+}
+
+// Code search is served separately from the main index, split into chunks of
+// roughly `chunkSize` characters, and only fetched once the user asks to
+// search SQL. Entries carry their owners like searchDocument does, so the
+// `owner:` facet also applies to code-only hits.
+export function buildCodeChunks(
+  project: any,
+  getOwners: (node: any) => string[],
+  chunkSize: number = 500000
+) {
+  if (project.code_chunks) {
+    return project.code_chunks;
+  }
+
+  const nodes = _.filter(
+    _.values(project.nodes),
+    (node) =>
+      _.includes(["model", "test"], node.resource_type) &&
+      _.get(node, ["docs", "show"], true)
+  );
+  const macros = _.filter(
+    _.values(project.macros),
+    (macro) => !macro.is_adapter_macro_impl
+  );
+
+  const chunks: any[][] = [[]];
+  let size = 0;
+  _.each(nodes.concat(macros), (node) => {
+    const raw_code = node.raw_code || node.macro_sql;
+    if (!raw_code) {
+      return;
+    }
+    if (size > chunkSize) {
+      chunks.push([]);
+      size = 0;
+    }
+    _.last(chunks)!.push({
+      unique_id: node.unique_id,
+      resource_type: node.resource_type,
+      name: node.name,
+      label: node.label,
+      version: node.version,
+      package_name: node.package_name,
+      description: node.description,
+      tags: node.tags || [],
+      materialized: node.config?.materialized,
+      columns: {},
+      owner: getOwners(node),
+      raw_code: raw_code,
+    });
+    size += raw_code.length;
+  });
+
+  project.code_chunks = chunks;
+  return chunks;
+}
+
+// Line-level code matches: every line containing all words of the query.
+export function searchCode(entries: any[], query: string, maxLines = 5) {
+  const words = _.words(query.toLowerCase());
+  if (!words.length) {
+    return [];
+  }
+
+  const results: any[] = [];
+  _.each(entries, (entry) => {
+    const lines: { line: number; text: string }[] = [];
+    const sourceLines = entry.raw_code.split("\n");
+    for (let i = 0; i < sourceLines.length && lines.length < maxLines; i++) {
+      const text = sourceLines[i].toLowerCase();
+      if (_.every(words, (word) => text.indexOf(word) != -1)) {
+        lines.push({ line: i + 1, text: sourceLines[i].trim() });
+      }
+    }
+    if (lines.length) {
+      results.push({ model: _.omit(entry, "raw_code"), code_matches: lines });
+    }
+  });
+  return results;
+}
+
+// Folds code matches into ranked search results. Nodes already found by the
+// index gain a `raw_code` match; code-only hits (e.g. tests) follow them.
+export function mergeCodeResults(results: any[], codeResults: any[]) {
+  const byId = _.keyBy(codeResults, "model.unique_id");
+  const merged = _.map(results, (result) => {
+    const code = byId[result.model.unique_id];
+    if (!code) {
+      return result;
+    }
+    delete byId[result.model.unique_id];
+    return {
+      ...result,
+      matches: result.matches.concat([{ key: "raw_code", value: "" }]),
+      code_matches: code.code_matches,
+    };
+  });
+
+  const codeOnly = _.filter(codeResults, (code) => byId[code.model.unique_id]);
+  return merged.concat(
+    _.map(codeOnly, (code) => ({
+      model: code.model,
+      matches: [{ key: "raw_code", value: "" }],
+      code_matches: code.code_matches,
+    }))
+  );
+}
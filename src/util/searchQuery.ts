@@ -0,0 +1,180 @@
+import _ from "lodash";
+
+// Structured search queries, e.g.
+//   orders type:model tag:pii owner:"Data Team" in:columns
+// Values of the same facet are alternatives, different facets must all match.
+// Anything that is not a known facet is free text for the search index.
+
+export type ParsedSearchQuery = {
+  text: string;
+  facets: Record<string, string[]>;
+};
+
+// Facets that restrict which nodes match
+export const searchFacets: Record<string, (doc: any) => string[]> = {
+  type: (doc) => [doc.resource_type],
+  tag: (doc) => doc.tags || [],
+  package: (doc) => [doc.package_name],
+  owner: (doc) => doc.owner || [],
+  materialized: (doc) => [doc.materialized],
+};
+
+// `in:` restricts which field the free text has to match, see searchFields
+export const searchInFields: Record<string, string[]> = {
+  name: ["name", "label"],
+  description: ["description"],
+  columns: ["columns"],
+  column_description: ["column_description"],
+  code: ["raw_code"],
+  tags: ["tags"],
+};
+
+// Facets listed in the search sidebar, with the label shown for each
+export const sidebarFacets = [
+  { key: "type", title: "Type" },
+  { key: "package", title: "Package" },
+  { key: "tag", title: "Tag" },
+];
+
+const termPattern = /(\S+?):("[^"]*"?|\S*)|"[^"]*"?|\S+/g;
+
+function isFacet(key: string) {
+  return key == "in" || _.has(searchFacets, key);
+}
+
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const facets: Record<string, string[]> = {};
+  const text: string[] = [];
+  _.each((query || "").match(termPattern) || [], (term) => {
+    const separator = term.indexOf(":");
+    const key = term.slice(0, separator).toLowerCase();
+    if (separator > 0 && isFacet(key)) {
+      const value = term.slice(separator + 1).replace(/"/g, "");
+      if (value) {
+        facets[key] = _.uniq((facets[key] || []).concat([value]));
+      }
+    } else {
+      text.push(term.replace(/"/g, ""));
+    }
+  });
+  return { text: text.join(" "), facets: facets };
+}
+
+function formatTerm(key: string, value: string) {
+  return `${key}:${/\s/.test(value) ? `"${value}"` : value}`;
+}
+
+export function hasFacet(
+  parsed: ParsedSearchQuery,
+  key: string,
+  value: string
+) {
+  return _.some(
+    parsed.facets[key],
+    (selected) => selected.toLowerCase() == value.toLowerCase()
+  );
+}
+
+// Adds `key:value` to the query, or removes it if it is already there.
+export function toggleFacet(query: string, key: string, value: string) {
+  const parsed = parseSearchQuery(query);
+  if (!hasFacet(parsed, key, value)) {
+    return _.trim(`${query.trim()} ${formatTerm(key, value)}`);
+  }
+
+  const terms = _.filter(query.match(termPattern) || [], (term) => {
+    const separator = term.indexOf(":");
+    return !(
+      term.slice(0, separator).toLowerCase() == key &&
+      term
+        .slice(separator + 1)
+        .replace(/"/g, "")
+        .toLowerCase() == value.toLowerCase()
+    );
+  });
+  return terms.join(" ");
+}
+
+function matchesFacet(doc: any, key: string, values: string[]) {
+  const actual = _.map(_.compact(searchFacets[key](doc)), (value) =>
+    String(value).toLowerCase()
+  );
+  return _.some(values, (value) => {
+    const expected = value.toLowerCase();
+    // Owners are "name <email>" style strings, so match on any part of them
+    return key == "owner"
+      ? _.some(actual, (owner) => owner.indexOf(expected) != -1)
+      : _.includes(actual, expected);
+  });
+}
+
+export function matchesFacets(
+  doc: any,
+  facets: Record<string, string[]>,
+  except?: string
+) {
+  return _.every(
+    facets,
+    (values, key) =>
+      key == "in" || key == except || matchesFacet(doc, key, values)
+  );
+}
+
+// Keys of the result fields the free text is allowed to match, or null when
+// the query does not restrict them.
+export function allowedMatchKeys(parsed: ParsedSearchQuery) {
+  if (!parsed.facets.in) {
+    return null;
+  }
+  return _.flatMap(
+    parsed.facets.in,
+    (field) => searchInFields[field.toLowerCase()] || []
+  );
+}
+
+// Applies facets and `in:` to `{ model, matches }` search results.
+export function filterSearchResults(results: any[], parsed: ParsedSearchQuery) {
+  const allowed = allowedMatchKeys(parsed);
+  return _.filter(
+    results,
+    (result) =>
+      matchesFacets(result.model, parsed.facets) &&
+      (!allowed ||
+        !parsed.text.trim() ||
+        _.some(result.matches, (match) => _.includes(allowed, match.key)))
+  );
+}
+
+// Counts per sidebar facet value. Each facet is counted against the results
+// filtered by every other facet, so selecting a type still shows the other
+// types that could be added to the query.
+export function countFacets(results: any[], parsed: ParsedSearchQuery) {
+  const allowed = allowedMatchKeys(parsed);
+  const textResults =
+    allowed && parsed.text.trim()
+      ? _.filter(results, (result) =>
+          _.some(result.matches, (match) => _.includes(allowed, match.key))
+        )
+      : results;
+
+  return _.map(sidebarFacets, ({ key, title }) => {
+    const counts: Record<string, number> = {};
+    _.each(textResults, (result) => {
+      if (!matchesFacets(result.model, parsed.facets, key)) {
+        return;
+      }
+      _.each(_.uniq(_.compact(searchFacets[key](result.model))), (value) => {
+        counts[value] = (counts[value] || 0) + 1;
+      });
+    });
+    return {
+      key: key,
+      title: title,
+      values: _.orderBy(
+        _.map(counts, (count, value) => ({ value: value, count: count })),
+        ["count", "value"],
+        ["desc", "asc"]
+      ),
+    };
+  });
+}
@@ -0,0 +1,225 @@
+import { getDownstream, getUpstream } from "./dagUtils";
+
+const _ = require("underscore");
+
+// A single selector atom, e.g. `2+tag:finance+` or `@stg_users`.
+export type SelectorCriteria = {
+  method: string;
+  value: string;
+  parents: boolean;
+  parents_depth?: number;
+  children: boolean;
+  children_depth?: number;
+  childrens_parents: boolean;
+};
+
+const selectorPattern = /^(@)?(?:(\d*)\+)?(?:([\w.]+):)?(.+?)(?:\+(\d*))?$/;
+
+export const selectorMethods = [
+  "fqn",
+  "tag",
+  "path",
+  "package",
+  "resource_type",
+  "config",
+  "source",
+  "exposure",
+  "metric",
+];
+
+export function parseSelectorAtom(atom: string): SelectorCriteria {
+  const match = atom.match(selectorPattern);
+  if (!match) {
+    throw new Error(`Invalid selector "${atom}"`);
+  }
+  const [, at, parentsDepth, method, value, childrenDepth] = match;
+
+  const methodName = method ? method.split(".")[0] : "fqn";
+  if (!_.contains(selectorMethods, methodName)) {
+    throw new Error(`Unknown selector method "${method}" in "${atom}"`);
+  }
+  if (at && (parentsDepth !== undefined || childrenDepth !== undefined)) {
+    throw new Error(`"@" cannot be combined with "+" in "${atom}"`);
+  }
+
+  return {
+    method: method || "fqn",
+    value: value,
+    parents: parentsDepth !== undefined,
+    parents_depth: parentsDepth ? parseInt(parentsDepth, 10) : undefined,
+    children: childrenDepth !== undefined,
+    children_depth: childrenDepth ? parseInt(childrenDepth, 10) : undefined,
+    childrens_parents: !!at,
+  };
+}
+
+// Space separated selectors are unioned, comma separated selectors inside a
+// single token are intersected. This mirrors `dbt ls --select`.
+export function parseSelector(selector: string): SelectorCriteria[][] {
+  return _.map(tokenize(selector), function (token: string) {
+    return _.map(token.split(","), parseSelectorAtom);
+  });
+}
+
+// Splits a selector on whitespace without breaking quoted values such as
+// `config.alias:"my table"`.
+function tokenize(selector: string): string[] {
+  const tokens = (selector || "").match(/(?:[^\s"]+|"[^"]*")+/g) || [];
+  return _.map(tokens, (token: string) => token.replace(/"/g, ""));
+}
+
+function globToRegExp(glob: string) {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(
+    "^" + escaped.replace(/\*/g, ".*").replace(/\?/g, ".") + "$",
+    "i"
+  );
+}
+
+function matchesValue(actual: any, expected: string) {
+  if (actual === undefined || actual === null) {
+    return false;
+  }
+  return globToRegExp(expected).test(String(actual));
+}
+
+function filePath(node: any) {
+  return (node.original_file_path || "").replace(/\\/g, "/");
+}
+
+function matchesCriteria(node: any, criteria: SelectorCriteria) {
+  const value = criteria.value;
+  const method = criteria.method.split(".")[0];
+
+  switch (method) {
+    case "tag":
+      return _.some(node.tags || [], (tag: string) => matchesValue(tag, value));
+    case "path": {
+      const path = filePath(node);
+      const dir = value.replace(/\\/g, "/").replace(/\/+$/, "");
+      return (
+        matchesValue(path, dir) ||
+        path.toLowerCase().indexOf(dir.toLowerCase() + "/") === 0
+      );
+    }
+    case "package":
+      return matchesValue(node.package_name, value);
+    case "resource_type":
+      return node.resource_type === value;
+    case "config": {
+      const key = criteria.method.split(".").slice(1);
+      const actual = _.reduce(
+        key,
+        (obj: any, part: string) => (obj == null ? obj : obj[part]),
+        node.config
+      );
+      if (_.isArray(actual)) {
+        return _.some(actual, (item: any) => matchesValue(item, value));
+      }
+      return matchesValue(actual, value);
+    }
+    case "source": {
+      if (node.resource_type !== "source") {
+        return false;
+      }
+      const parts = value.split(".");
+      const fullName = [node.package_name, node.source_name, node.name];
+      // source:my_source, source:my_source.my_table or
+      // source:my_package.my_source.my_table
+      const candidate = fullName.slice(fullName.length - parts.length);
+      if (parts.length == 1) {
+        return matchesValue(node.source_name, value);
+      }
+      return _.every(parts, (part: string, i: number) =>
+        matchesValue(candidate[i], part)
+      );
+    }
+    case "exposure":
+    case "metric":
+      return node.resource_type === method && matchesValue(node.name, value);
+    default: {
+      // Bare names match the node name, its versioned label or its fqn
+      if (matchesValue(node.name, value) || matchesValue(node.label, value)) {
+        return true;
+      }
+      const fqn = (node.fqn || []).join(".");
+      return (
+        matchesValue(fqn, value) ||
+        fqn.toLowerCase().indexOf(value.toLowerCase() + ".") === 0
+      );
+    }
+  }
+}
+
+function selectCriteria(dag: any, nodes: any, criteria: SelectorCriteria) {
+  const selected: Record<string, boolean> = {};
+  const matched = _.filter(_.keys(nodes), (id: string) =>
+    matchesCriteria(nodes[id], criteria)
+  );
+
+  _.each(matched, function (id: string) {
+    selected[id] = true;
+    if (criteria.parents) {
+      _.each(
+        _.keys(getUpstream(dag, id, criteria.parents_depth)),
+        (p: string) => {
+          selected[p] = true;
+        }
+      );
+    }
+    if (criteria.children || criteria.childrens_parents) {
+      const children = _.keys(getDownstream(dag, id, criteria.children_depth));
+      _.each(children, function (child: string) {
+        selected[child] = true;
+        if (criteria.childrens_parents) {
+          _.each(_.keys(getUpstream(dag, child)), (p: string) => {
+            selected[p] = true;
+          });
+        }
+      });
+    }
+  });
+
+  return selected;
+}
+
+function selectSpec(dag: any, nodes: any, selector: string) {
+  const selected: Record<string, boolean> = {};
+  _.each(parseSelector(selector), function (intersection: SelectorCriteria[]) {
+    const sets = _.map(intersection, (criteria: SelectorCriteria) =>
+      selectCriteria(dag, nodes, criteria)
+    );
+    _.each(_.keys(sets[0]), function (id: string) {
+      if (_.every(sets, (set: any) => set[id])) {
+        selected[id] = true;
+      }
+    });
+  });
+  return selected;
+}
+
+// Evaluates a dbt node selector over a set of nodes. `dag` must provide the
+// parent_map and child_map used for the graph operators, and `nodes` is keyed
+// by unique_id. An `--exclude` clause may be written inline or passed
+// separately. Returns the selected unique_ids.
+export function selectNodes(
+  dag: any,
+  nodes: any,
+  select: string,
+  exclude?: string
+): string[] {
+  const [include, inlineExclude] = (select || "").split(
+    /\s--exclude\s|^--exclude\s/
+  );
+  const excludes = _.compact([inlineExclude, exclude]).join(" ");
+
+  const selected = include.trim()
+    ? selectSpec(dag, nodes, include)
+    : _.object(
+        _.keys(nodes),
+        _.map(_.keys(nodes), () => true)
+      );
+  const excluded = excludes.trim() ? selectSpec(dag, nodes, excludes) : {};
+
+  return _.filter(_.keys(selected), (id: string) => nodes[id] && !excluded[id]);
+}
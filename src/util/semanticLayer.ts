@@ -0,0 +1,167 @@
+import _ from "lodash";
+
+// Helpers for the MetricFlow semantic layer of dbt 1.6 and later: semantic
+// models with their entities, dimensions and measures, metrics built on those
+// measures, and saved queries over the metrics.
+
+const metricTypeLabels: Record<string, string> = {
+  simple: "Simple metric",
+  ratio: "Ratio metric",
+  cumulative: "Cumulative metric",
+  derived: "Derived metric",
+  conversion: "Conversion metric",
+};
+
+// Manifests before v10 only have the legacy dbt_metrics fields
+export function isMetricFlowMetric(metric: any) {
+  return !!metric.type_params;
+}
+
+export function describeMetricType(metric: any) {
+  if (!isMetricFlowMetric(metric)) {
+    return _.includes(["expression", "derived"], metric.calculation_method)
+      ? "Expression metric"
+      : "Aggregate metric";
+  }
+  return metricTypeLabels[metric.type] || _.capitalize(metric.type);
+}
+
+// e.g. "{{ Dimension('order__status') }} = 'paid' and ..."
+export function describeFilter(filter: any) {
+  if (!filter) {
+    return undefined;
+  }
+  const templates = _.map(filter.where_filters, "where_sql_template");
+  return templates.length ? templates.join(" and ") : undefined;
+}
+
+// e.g. "7 days"
+export function describeWindow(window: any) {
+  if (!window) {
+    return undefined;
+  }
+  if (typeof window == "string") {
+    return window;
+  }
+  return `${window.count} ${window.granularity}${window.count == 1 ? "" : "s"}`;
+}
+
+export function findSemanticModel(project: any, measureName: string) {
+  return _.find(_.values(project.semantic_models), (semanticModel: any) =>
+    _.some(semanticModel.measures, { name: measureName })
+  );
+}
+
+export function findMetric(project: any, name: string) {
+  return _.find(_.values(project.metrics), { name: name });
+}
+
+export type MeasureInput = {
+  name: string;
+  filter?: string;
+  alias?: string;
+  semantic_model?: any;
+};
+
+export type MetricInput = {
+  name: string;
+  role?: string;
+  filter?: string;
+  alias?: string;
+  offset_window?: string;
+  offset_to_grain?: string;
+  metric?: any;
+};
+
+function measureInput(project: any, measure: any): MeasureInput {
+  return {
+    name: measure.name,
+    filter: describeFilter(measure.filter),
+    alias: measure.alias || undefined,
+    semantic_model: findSemanticModel(project, measure.name),
+  };
+}
+
+function metricInput(project: any, input: any, role?: string): MetricInput {
+  return {
+    name: input.name,
+    role: role,
+    filter: describeFilter(input.filter),
+    alias: input.alias || undefined,
+    offset_window: describeWindow(input.offset_window),
+    offset_to_grain: input.offset_to_grain || undefined,
+    metric: findMetric(project, input.name),
+  };
+}
+
+// The measures and metrics a metric is computed from, with the semantic
+// models and metrics they are defined in
+export function getMetricInputs(project: any, metric: any) {
+  const params = metric.type_params || {};
+  const conversion = params.conversion_type_params;
+
+  let measures = params.input_measures || [];
+  if (!measures.length) {
+    measures = _.compact([
+      params.measure,
+      conversion && conversion.base_measure,
+      conversion && conversion.conversion_measure,
+    ]);
+  }
+
+  const metrics = _.compact(
+    _.concat(
+      params.numerator
+        ? [metricInput(project, params.numerator, "numerator")]
+        : [],
+      params.denominator
+        ? [metricInput(project, params.denominator, "denominator")]
+        : [],
+      _.map(params.metrics, (input) => metricInput(project, input))
+    )
+  );
+
+  return {
+    measures: _.uniqBy(
+      _.map(measures, (measure) => measureInput(project, measure)),
+      "name"
+    ),
+    metrics: metrics,
+  };
+}
+
+// Details that only apply to some metric types, for the metric page
+export function getMetricTypeDetails(metric: any) {
+  const params = metric.type_params || {};
+  const cumulative = params.cumulative_type_params || {};
+  const conversion = params.conversion_type_params || {};
+  return _.filter(
+    [
+      { name: "Expression", value: params.expr || undefined },
+      {
+        name: "Window",
+        value: describeWindow(cumulative.window || params.window),
+      },
+      {
+        name: "Grain to date",
+        value: cumulative.grain_to_date || params.grain_to_date || undefined,
+      },
+      { name: "Period aggregation", value: cumulative.period_agg },
+      { name: "Conversion entity", value: conversion.entity },
+      { name: "Calculation", value: conversion.calculation },
+      {
+        name: "Conversion window",
+        value: describeWindow(conversion.window),
+      },
+      { name: "Filter", value: describeFilter(metric.filter) },
+    ],
+    (detail) => detail.value != null
+  );
+}
+
+// Metrics that use a measure of the semantic model
+export function getMeasureMetrics(project: any, measureName: string) {
+  return _.filter(_.values(project.metrics), (metric: any) =>
+    _.some(getMetricInputs(project, metric).measures, { name: measureName })
+  );
+}
@@ -0,0 +1,95 @@
+import _ from "lodash";
+
+// Column tests shown in the test coverage matrix, keyed by the `short` code
+// projectService puts on each column's test_info
+export const matrixTestTypes = [
+  { short: "U", name: "unique", label: "Unique" },
+  { short: "N", name: "not_null", label: "Not Null" },
+  { short: "F", name: "relationships", label: "Relationships" },
+  { short: "A", name: "accepted_values", label: "Accepted Values" },
+];
+
+// Resource types listed in the test coverage report
+export const testedResourceTypes = ["model", "seed", "snapshot"];
+
+// Model level generic tests that guarantee a primary key on their own
+const primaryKeyTests = [
+  "unique_combination_of_columns",
+  "primary_key",
+  "expect_compound_columns_to_be_unique",
+];
+
+export type ColumnTestCoverage = {
+  name: string;
+  // short codes of matrixTestTypes with at least one test on the column
+  types: string[];
+  tests: any[];
+};
+
+export type ModelTestCoverage = {
+  columns: ColumnTestCoverage[];
+  tested_columns: number;
+  primary_key: string[] | null;
+  singular_tests: any[];
+};
+
+function testName(test: any) {
+  return _.get(test, ["test_metadata", "name"]);
+}
+
+// `tests` are the test nodes depending on the model, see getModelTests
+export function getModelTestCoverage(
+  model: any,
+  tests: any[]
+): ModelTestCoverage {
+  const columns = _.map(
+    _.sortBy(_.values(model.columns), "index"),
+    (column: any) => ({
+      name: column.name,
+      types: _.uniq(_.map(column.tests, "short")),
+      tests: column.tests || [],
+    })
+  );
+
+  // a column that is both unique and not null, or a combination of columns
+  // tested to be unique
+  const keyColumn = _.find(
+    columns,
+    (column) => _.includes(column.types, "U") && _.includes(column.types, "N")
+  );
+  const keyTest = _.find(tests, (test) =>
+    _.includes(primaryKeyTests, testName(test))
+  );
+  let primary_key: string[] | null = null;
+  if (keyColumn) {
+    primary_key = [keyColumn.name];
+  } else if (keyTest) {
+    const kwargs = keyTest.test_metadata.kwargs || {};
+    primary_key = _.castArray(
+      kwargs.combination_of_columns ||
+        kwargs.column_list ||
+        kwargs.column_names ||
+        keyTest.column_name ||
+        keyTest.name
+    );
+  }
+
+  return {
+    columns: columns,
+    tested_columns: _.filter(columns, (column) => column.tests.length > 0)
+      .length,
+    primary_key: primary_key,
+    singular_tests: _.filter(tests, (test) => !test.test_metadata),
+  };
+}
+
+// Test nodes that depend on the model, from the child map
+export function getModelTests(project: any, model: any) {
+  return _.filter(
+    _.map(
+      project.child_map[model.unique_id] || [],
+      (id: string) => project.nodes[id]
+    ),
+    (node: any) => node && node.resource_type == "test"
+  );
+}